@@ -45,6 +45,16 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="archive"
+        options={{
+          title: "Archiv",
+          headerShown: false,
+          tabBarIcon: ({ color }) => (
+            <IconSymbol size={28} name="archivebox" color={color} />
+          ),
+        }}
+      />
       <Tabs.Screen
         name="history"
         options={{
@@ -0,0 +1,312 @@
+import { useUser } from "@/contexts/UserContext";
+import { api } from "@/convex/_generated/api";
+import { useQuery } from "convex/react";
+import { Link } from "expo-router";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Pressable,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+} from "react-native";
+
+const WEEKDAYS = ["Mo", "Di", "Mi", "Do", "Fr", "Sa", "So"];
+
+type DayStatus = "won" | "lost" | "in-progress" | null;
+
+// Format a YYYY-MM month as e.g. "Oktober 2025"
+function formatMonth(month: string): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1, 1)).toLocaleDateString("de-DE", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+// Calendar cells for a month: leading blanks so weeks start on Monday, then
+// the day numbers
+function getCalendarCells(month: string): (number | null)[] {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const firstWeekday = (new Date(Date.UTC(year, monthIndex - 1, 1)).getUTCDay() + 6) % 7;
+  const daysInMonth = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+
+  return [
+    ...Array.from({ length: firstWeekday }, () => null),
+    ...Array.from({ length: daysInMonth }, (_, i) => i + 1),
+  ];
+}
+
+function getStatusStyle(status: DayStatus) {
+  switch (status) {
+    case "won":
+      return styles.dayWon;
+    case "lost":
+      return styles.dayLost;
+    case "in-progress":
+      return styles.dayInProgress;
+    default:
+      return styles.dayAvailable;
+  }
+}
+
+export default function ArchiveScreen() {
+  const { authToken, isLoading: userLoading } = useUser();
+  // null shows the current month
+  const [month, setMonth] = useState<string | null>(null);
+
+  const archive = useQuery(
+    api.boards.listArchive,
+    userLoading ? "skip" : { authToken: authToken ?? undefined, month: month ?? undefined }
+  );
+
+  if (userLoading || archive === undefined) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#5A594E" />
+          <Text style={styles.loadingText}>Lade Archiv...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const daysByNumber = new Map(
+    archive.days.map((day) => [Number(day.date.slice(8, 10)), day])
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Archiv</Text>
+        </View>
+
+        <View style={styles.calendarCard}>
+          <View style={styles.monthRow}>
+            <Pressable
+              style={styles.monthButton}
+              onPress={() => archive.previousMonth && setMonth(archive.previousMonth)}
+              disabled={!archive.previousMonth}
+            >
+              <Text
+                style={[styles.monthButtonText, !archive.previousMonth && styles.monthButtonDisabled]}
+              >
+                ‹
+              </Text>
+            </Pressable>
+            <Text style={styles.monthTitle}>{formatMonth(archive.month)}</Text>
+            <Pressable
+              style={styles.monthButton}
+              onPress={() => archive.nextMonth && setMonth(archive.nextMonth)}
+              disabled={!archive.nextMonth}
+            >
+              <Text
+                style={[styles.monthButtonText, !archive.nextMonth && styles.monthButtonDisabled]}
+              >
+                ›
+              </Text>
+            </Pressable>
+          </View>
+
+          <View style={styles.grid}>
+            {WEEKDAYS.map((weekday) => (
+              <View key={weekday} style={styles.cell}>
+                <Text style={styles.weekday}>{weekday}</Text>
+              </View>
+            ))}
+
+            {getCalendarCells(archive.month).map((dayNumber, index) => {
+              if (dayNumber === null) {
+                return <View key={`blank-${index}`} style={styles.cell} />;
+              }
+
+              const day = daysByNumber.get(dayNumber);
+              if (!day) {
+                return (
+                  <View key={dayNumber} style={styles.cell}>
+                    <View style={styles.day}>
+                      <Text style={styles.dayNumberEmpty}>{dayNumber}</Text>
+                    </View>
+                  </View>
+                );
+              }
+
+              return (
+                <View key={dayNumber} style={styles.cell}>
+                  <Link href={`/game/${day.boardId}`} asChild>
+                    <Pressable style={[styles.day, getStatusStyle(day.status)]}>
+                      <Text style={styles.dayNumber}>{dayNumber}</Text>
+                      {day.puzzleNumber && (
+                        <Text style={styles.puzzleNumber}>#{day.puzzleNumber}</Text>
+                      )}
+                    </Pressable>
+                  </Link>
+                </View>
+              );
+            })}
+          </View>
+        </View>
+
+        <View style={styles.legend}>
+          <View style={styles.legendItem}>
+            <View style={[styles.legendSwatch, styles.dayAvailable]} />
+            <Text style={styles.legendText}>Offen</Text>
+          </View>
+          <View style={styles.legendItem}>
+            <View style={[styles.legendSwatch, styles.dayInProgress]} />
+            <Text style={styles.legendText}>Angefangen</Text>
+          </View>
+          <View style={styles.legendItem}>
+            <View style={[styles.legendSwatch, styles.dayWon]} />
+            <Text style={styles.legendText}>Gewonnen</Text>
+          </View>
+          <View style={styles.legendItem}>
+            <View style={[styles.legendSwatch, styles.dayLost]} />
+            <Text style={styles.legendText}>Verloren</Text>
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#FAF9F6",
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: 16,
+    maxWidth: 500,
+    width: "100%",
+    alignSelf: "center",
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    gap: 16,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: "#666666",
+  },
+  header: {
+    alignItems: "center",
+    marginBottom: 24,
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: "800",
+    color: "#1A1A1A",
+    letterSpacing: -1,
+  },
+  calendarCard: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 16,
+    padding: 12,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  monthRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 8,
+  },
+  monthButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+  },
+  monthButtonText: {
+    fontSize: 28,
+    color: "#5A594E",
+    fontWeight: "600",
+  },
+  monthButtonDisabled: {
+    color: "#D0D0D0",
+  },
+  monthTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1A1A1A",
+  },
+  grid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  cell: {
+    width: `${100 / 7}%`,
+    aspectRatio: 1,
+    padding: 3,
+  },
+  weekday: {
+    flex: 1,
+    textAlign: "center",
+    textAlignVertical: "center",
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#999999",
+    lineHeight: 36,
+  },
+  day: {
+    flex: 1,
+    borderRadius: 8,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  dayNumber: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#1A1A1A",
+  },
+  dayNumberEmpty: {
+    fontSize: 15,
+    color: "#CCCCCC",
+  },
+  puzzleNumber: {
+    fontSize: 9,
+    color: "#666666",
+  },
+  dayAvailable: {
+    backgroundColor: "#EFEFE6",
+  },
+  dayInProgress: {
+    backgroundColor: "#FFF3CD",
+  },
+  dayWon: {
+    backgroundColor: "#D4EDDA",
+  },
+  dayLost: {
+    backgroundColor: "#F8D7DA",
+  },
+  legend: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    gap: 16,
+    marginTop: 16,
+  },
+  legendItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  legendSwatch: {
+    width: 14,
+    height: 14,
+    borderRadius: 4,
+  },
+  legendText: {
+    fontSize: 13,
+    color: "#666666",
+  },
+});
@@ -1,6 +1,7 @@
+import { StatsPanel } from "@/components/game/StatsPanel";
 import { useUser } from "@/contexts/UserContext";
 import { api } from "@/convex/_generated/api";
-import { formatDate, formatTimestamp } from "@/utils/gameLogic";
+import { formatDate, formatTimestamp, getModeLabel } from "@/utils/gameLogic";
 import { useQuery } from "convex/react";
 import { Link } from "expo-router";
 import React from "react";
@@ -22,7 +23,9 @@ export default function HistoryScreen() {
     userId ? { userId } : "skip"
   );
 
-  if (userLoading || history === undefined) {
+  const stats = useQuery(api.stats.getUserStats, userId ? { userId } : "skip");
+
+  if (userLoading || history === undefined || stats === undefined) {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.loadingContainer}>
@@ -38,6 +41,11 @@ export default function HistoryScreen() {
       <SafeAreaView style={styles.container}>
         <View style={styles.header}>
           <Text style={styles.title}>Spielverlauf</Text>
+          <Link href="/account" asChild>
+            <Pressable style={styles.accountLink}>
+              <Text style={styles.accountLinkText}>Konto & Anmeldung →</Text>
+            </Pressable>
+          </Link>
         </View>
         <View style={styles.emptyContainer}>
           <Text style={styles.emptyTitle}>Noch keine Spiele</Text>
@@ -49,49 +57,33 @@ export default function HistoryScreen() {
     );
   }
 
-  // Calculate stats
-  const totalGames = history.length;
-  const wins = history.filter((g) => g.won).length;
-  const winRate = Math.round((wins / totalGames) * 100);
-
   return (
     <SafeAreaView style={styles.container}>
       <ScrollView contentContainerStyle={styles.scrollContent}>
         <View style={styles.header}>
           <Text style={styles.title}>Spielverlauf</Text>
+          <Link href="/account" asChild>
+            <Pressable style={styles.accountLink}>
+              <Text style={styles.accountLinkText}>Konto & Anmeldung →</Text>
+            </Pressable>
+          </Link>
         </View>
 
-        {/* Stats */}
-        <View style={styles.statsContainer}>
-          <View style={styles.statItem}>
-            <Text style={styles.statValue}>{totalGames}</Text>
-            <Text style={styles.statLabel}>Gespielt</Text>
-          </View>
-          <View style={styles.statDivider} />
-          <View style={styles.statItem}>
-            <Text style={styles.statValue}>{wins}</Text>
-            <Text style={styles.statLabel}>Gewonnen</Text>
-          </View>
-          <View style={styles.statDivider} />
-          <View style={styles.statItem}>
-            <Text style={styles.statValue}>{winRate}%</Text>
-            <Text style={styles.statLabel}>Siegquote</Text>
-          </View>
-        </View>
+        <StatsPanel stats={stats} />
 
         {/* Game list */}
         <View style={styles.listContainer}>
-          {history.map((game) => (
-            <Link
-              key={game._id}
-              href={`/game/${game.boardId}`}
-              asChild
-            >
-              <Pressable style={styles.gameCard}>
+          {history.map((game) => {
+            const card = (
+              <Pressable style={[styles.gameCard, !game.board && styles.deletedCard]}>
                 <View style={styles.gameHeader}>
                   <View style={styles.gameInfo}>
                     <Text style={styles.gameDate}>
-                      {game.board?.date ? formatDate(game.board.date) : "Zufallsspiel"}
+                      {!game.board
+                        ? "Gelöschtes Rätsel"
+                        : game.board.date
+                          ? formatDate(game.board.date)
+                          : "Zufallsspiel"}
                     </Text>
                     <Text style={styles.playedAt}>
                       Gespielt: {formatTimestamp(game.playedAt)}
@@ -107,12 +99,25 @@ export default function HistoryScreen() {
                 <View style={styles.gameFooter}>
                   <Text style={styles.attemptsText}>
                     {game.attempts} Versuche
+                    {game.mode && game.mode !== "classic" ? ` • ${getModeLabel(game.mode)}` : ""}
+                    {game.hints && game.hints.length > 0
+                      ? ` • ${game.hints.length} ${game.hints.length === 1 ? "Hinweis" : "Hinweise"}`
+                      : ""}
                   </Text>
-                  <Text style={styles.viewDetails}>Details anzeigen →</Text>
+                  {game.board && <Text style={styles.viewDetails}>Details anzeigen →</Text>}
                 </View>
               </Pressable>
-            </Link>
-          ))}
+            );
+
+            // Deleted boards can't be opened any more
+            return game.board ? (
+              <Link key={game._id} href={`/game/${game.boardId}`} asChild>
+                {card}
+              </Link>
+            ) : (
+              <View key={game._id}>{card}</View>
+            );
+          })}
         </View>
       </ScrollView>
     </SafeAreaView>
@@ -165,38 +170,13 @@ const styles = StyleSheet.create({
     color: "#1A1A1A",
     letterSpacing: -1,
   },
-  statsContainer: {
-    flexDirection: "row",
-    backgroundColor: "#FFFFFF",
-    borderRadius: 16,
-    padding: 20,
-    marginBottom: 24,
-    shadowColor: "#000",
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.05,
-    shadowRadius: 8,
-    elevation: 2,
-  },
-  statItem: {
-    flex: 1,
-    alignItems: "center",
-  },
-  statValue: {
-    fontSize: 28,
-    fontWeight: "800",
-    color: "#1A1A1A",
-  },
-  statLabel: {
-    fontSize: 12,
-    color: "#666666",
-    marginTop: 4,
-    textTransform: "uppercase",
-    letterSpacing: 0.5,
+  accountLink: {
+    marginTop: 8,
   },
-  statDivider: {
-    width: 1,
-    backgroundColor: "#E5E5E5",
-    marginVertical: 4,
+  accountLinkText: {
+    fontSize: 14,
+    color: "#5A594E",
+    fontWeight: "600",
   },
   listContainer: {
     gap: 12,
@@ -211,6 +191,9 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 2,
   },
+  deletedCard: {
+    opacity: 0.6,
+  },
   gameHeader: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -1,8 +1,11 @@
 import { GameBoard } from "@/components/game/GameBoard";
+import { BoardSummary } from "@/components/game/BoardSummary";
 import { GroupDisplay } from "@/components/game/GroupDisplay";
+import { LeaderboardLink } from "@/components/game/LeaderboardLink";
+import { ShareButton } from "@/components/game/ShareButton";
 import { useUser } from "@/contexts/UserContext";
 import { useTodaysGame } from "@/hooks/useGame";
-import { formatDate, Group } from "@/utils/gameLogic";
+import { formatDate, getPuzzleTitle } from "@/utils/gameLogic";
 import { Link } from "expo-router";
 import React from "react";
 import {
@@ -20,6 +23,7 @@ export default function HomeScreen() {
   const {
     gameState,
     board,
+    groups,
     isLoading,
     hasPlayed,
     previousResult,
@@ -28,6 +32,10 @@ export default function HomeScreen() {
     submitGuess,
     deselectAll,
     shuffle,
+    requestHint,
+    startGame,
+    elapsedMs,
+    timeLeftMs,
   } = useTodaysGame();
 
   if (userLoading || isLoading) {
@@ -56,7 +64,7 @@ export default function HomeScreen() {
 
   // Already played - show result
   if (hasPlayed && previousResult && board) {
-    const sortedGroups = [...(board.groups as Group[])].sort((a, b) => {
+    const sortedGroups = [...previousResult.groups].sort((a, b) => {
       const order = { easy: 0, medium: 1, hard: 2, "very-hard": 3 };
       return order[a.difficulty] - order[b.difficulty];
     });
@@ -65,7 +73,7 @@ export default function HomeScreen() {
       <SafeAreaView style={styles.container}>
         <ScrollView contentContainerStyle={styles.scrollContent}>
           <View style={styles.header}>
-            <Text style={styles.title}>Verbindungen</Text>
+            <Text style={styles.title}>{getPuzzleTitle(board.puzzleNumber)}</Text>
             <Text style={styles.date}>{formatDate(board.date)}</Text>
           </View>
 
@@ -76,6 +84,14 @@ export default function HomeScreen() {
             <Text style={styles.resultDetails}>
               Du hast dieses Spiel bereits gespielt.
             </Text>
+            <ShareButton
+              attempts={previousResult.selectedGroups}
+              groups={previousResult.groups}
+              board={board}
+              hintCount={previousResult.hints.length}
+            />
+            <BoardSummary boardId={board._id} />
+            <LeaderboardLink boardId={board._id} />
             <Link href="/random" asChild>
               <Pressable style={styles.randomButton}>
                 <Text style={styles.randomButtonText}>🎲 Zufallsspiel starten</Text>
@@ -107,7 +123,7 @@ export default function HomeScreen() {
     <SafeAreaView style={styles.container}>
       <ScrollView contentContainerStyle={styles.scrollContent}>
         <View style={styles.header}>
-          <Text style={styles.title}>Verbindungen</Text>
+          <Text style={styles.title}>{getPuzzleTitle(board.puzzleNumber)}</Text>
           <Text style={styles.date}>{formatDate(board.date)}</Text>
           <Text style={styles.instructions}>
             Finde 4 Gruppen mit je 4 zusammengehörigen Wörtern
@@ -116,11 +132,17 @@ export default function HomeScreen() {
 
         <GameBoard
           gameState={gameState}
-          groups={board.groups as Group[]}
+          groups={groups}
           onSelectWord={selectWord}
           onSubmit={submitGuess}
           onDeselectAll={deselectAll}
           onShuffle={shuffle}
+          onRequestHint={requestHint}
+          onStartGame={startGame}
+          elapsedMs={elapsedMs}
+          timeLeftMs={timeLeftMs}
+          shareBoard={board}
+          boardId={board._id}
         />
       </ScrollView>
     </SafeAreaView>
@@ -1,8 +1,11 @@
 import { GameBoard } from "@/components/game/GameBoard";
+import { BoardSummary } from "@/components/game/BoardSummary";
 import { GroupDisplay } from "@/components/game/GroupDisplay";
+import { LeaderboardLink } from "@/components/game/LeaderboardLink";
+import { ShareButton } from "@/components/game/ShareButton";
 import { useUser } from "@/contexts/UserContext";
 import { useRandomGame } from "@/hooks/useGame";
-import { formatDate, Group } from "@/utils/gameLogic";
+import { formatDate, getPuzzleTitle } from "@/utils/gameLogic";
 import React from "react";
 import {
     ActivityIndicator,
@@ -19,12 +22,17 @@ export default function RandomScreen() {
   const {
     gameState,
     board,
+    groups,
     isLoading,
     noPastBoards,
     selectWord,
     submitGuess,
     deselectAll,
     shuffle,
+    requestHint,
+    startGame,
+    elapsedMs,
+    timeLeftMs,
     getNewRandomBoard,
   } = useRandomGame();
 
@@ -64,7 +72,7 @@ export default function RandomScreen() {
 
   // Game complete - show result and option to play another
   if (gameState.isComplete) {
-    const sortedGroups = [...(board.groups as Group[])].sort((a, b) => {
+    const sortedGroups = [...groups].sort((a, b) => {
       const order = { easy: 0, medium: 1, hard: 2, "very-hard": 3 };
       return order[a.difficulty] - order[b.difficulty];
     });
@@ -74,7 +82,7 @@ export default function RandomScreen() {
         <ScrollView contentContainerStyle={styles.scrollContent}>
           <View style={styles.header}>
             <Text style={styles.subtitle}>Zufallsspiel</Text>
-            <Text style={styles.title}>Verbindungen</Text>
+            <Text style={styles.title}>{getPuzzleTitle(board.puzzleNumber)}</Text>
             <Text style={styles.date}>Veröffentlicht: {formatDate(board.date)}</Text>
           </View>
 
@@ -88,6 +96,14 @@ export default function RandomScreen() {
             <Text style={[styles.resultText, gameState.won ? styles.winText : styles.loseText]}>
               {gameState.won ? "Gewonnen! 🎉" : "Verloren 😔"}
             </Text>
+            <ShareButton
+              attempts={gameState.attempts}
+              groups={groups}
+              board={board}
+              hintCount={gameState.hints.length}
+            />
+            <BoardSummary boardId={board._id} />
+            <LeaderboardLink boardId={board._id} />
 
             <Pressable style={styles.newGameButton} onPress={getNewRandomBoard}>
               <Text style={styles.newGameButtonText}>Neues Zufallsspiel</Text>
@@ -103,7 +119,7 @@ export default function RandomScreen() {
       <ScrollView contentContainerStyle={styles.scrollContent}>
         <View style={styles.header}>
           <Text style={styles.subtitle}>Zufallsspiel</Text>
-          <Text style={styles.title}>Verbindungen</Text>
+          <Text style={styles.title}>{getPuzzleTitle(board.puzzleNumber)}</Text>
           <Text style={styles.date}>Veröffentlicht: {formatDate(board.date)}</Text>
           <Text style={styles.instructions}>
             Finde 4 Gruppen mit je 4 zusammengehörigen Wörtern
@@ -112,11 +128,17 @@ export default function RandomScreen() {
 
         <GameBoard
           gameState={gameState}
-          groups={board.groups as Group[]}
+          groups={groups}
           onSelectWord={selectWord}
           onSubmit={submitGuess}
           onDeselectAll={deselectAll}
           onShuffle={shuffle}
+          onRequestHint={requestHint}
+          onStartGame={startGame}
+          elapsedMs={elapsedMs}
+          timeLeftMs={timeLeftMs}
+          shareBoard={board}
+          boardId={board._id}
         />
       </ScrollView>
     </SafeAreaView>
@@ -0,0 +1,414 @@
+import { useUser } from "@/contexts/UserContext";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { useMutation, useQuery } from "convex/react";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  Pressable,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+
+export default function AccountScreen() {
+  const {
+    user,
+    authToken,
+    isLoading: userLoading,
+    requestLoginCode,
+    confirmLoginCode,
+    signOut,
+    signOutEverywhere,
+  } = useUser();
+  const sessions = useQuery(api.auth.listSessions, authToken ? { authToken } : "skip");
+  const revokeSession = useMutation(api.auth.revokeSession);
+  const [email, setEmail] = useState("");
+  const [code, setCode] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [mergeMessage, setMergeMessage] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleRequestCode = async () => {
+    if (!email.trim()) {
+      setError("Bitte gib deine E-Mail-Adresse ein");
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await requestLoginCode(email.trim());
+      setCodeSent(true);
+    } catch (err: any) {
+      setError(err.message || "Code konnte nicht gesendet werden");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirmCode = async () => {
+    if (code.trim().length !== 6) {
+      setError("Der Code hat 6 Ziffern");
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const mergeResult = await confirmLoginCode(email.trim(), code.trim());
+      if (mergeResult) {
+        const parts = [
+          `${mergeResult.movedGames} ${mergeResult.movedGames === 1 ? "Spiel" : "Spiele"} aus deinem anonymen Verlauf übernommen`,
+        ];
+        if (mergeResult.duplicateBoards > 0) {
+          parts.push(
+            `${mergeResult.duplicateBoards} doppelt gespielte Rätsel zusammengeführt (das frühere Ergebnis zählt)`
+          );
+        }
+        setMergeMessage(parts.join(", ") + ".");
+      }
+      setCode("");
+      setCodeSent(false);
+    } catch (err: any) {
+      setError(err.message || "Anmeldung fehlgeschlagen");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevokeSession = async (sessionId: Id<"userSessions">) => {
+    if (!authToken) return;
+    setError(null);
+    try {
+      await revokeSession({ authToken, sessionId });
+    } catch (err: any) {
+      setError(err.message || "Gerät konnte nicht abgemeldet werden");
+    }
+  };
+
+  const handleSignOut = async (everywhere: boolean) => {
+    setIsLoading(true);
+    setError(null);
+    setMergeMessage(null);
+    try {
+      await (everywhere ? signOutEverywhere() : signOut());
+    } catch (err: any) {
+      setError(err.message || "Abmelden fehlgeschlagen");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (userLoading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#5A594E" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.keyboardView}
+      >
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>Anmeldung</Text>
+            {user?.email ? (
+              <Text style={styles.cardText}>
+                Angemeldet als <Text style={styles.email}>{user.email}</Text>
+              </Text>
+            ) : (
+              <Text style={styles.cardText}>
+                Du spielst anonym. Melde dich mit deiner E-Mail-Adresse an, um deinen
+                Spielverlauf auf allen Geräten zu sehen.
+              </Text>
+            )}
+          </View>
+
+          {mergeMessage && (
+            <View style={styles.successContainer}>
+              <Text style={styles.successText}>{mergeMessage}</Text>
+            </View>
+          )}
+
+          <View style={styles.card}>
+            <Text style={styles.cardTitle}>
+              {user?.email ? "Anderes Konto" : "Mit E-Mail anmelden"}
+            </Text>
+
+            <Text style={styles.label}>E-Mail</Text>
+            <TextInput
+              style={styles.input}
+              value={email}
+              onChangeText={setEmail}
+              placeholder="du@example.com"
+              placeholderTextColor="#999999"
+              autoCapitalize="none"
+              keyboardType="email-address"
+              autoComplete="email"
+              editable={!codeSent}
+            />
+
+            {codeSent && (
+              <>
+                <Text style={styles.hint}>
+                  Wir haben dir einen 6-stelligen Code geschickt.
+                </Text>
+                <Text style={styles.label}>Code</Text>
+                <TextInput
+                  style={styles.input}
+                  value={code}
+                  onChangeText={setCode}
+                  placeholder="123456"
+                  placeholderTextColor="#999999"
+                  keyboardType="number-pad"
+                  autoComplete="one-time-code"
+                  maxLength={6}
+                />
+              </>
+            )}
+
+            {error && (
+              <View style={styles.errorContainer}>
+                <Text style={styles.errorText}>{error}</Text>
+              </View>
+            )}
+
+            <Pressable
+              style={[styles.button, isLoading && styles.buttonDisabled]}
+              onPress={codeSent ? handleConfirmCode : handleRequestCode}
+              disabled={isLoading}
+            >
+              {isLoading ? (
+                <ActivityIndicator color="#FFFFFF" />
+              ) : (
+                <Text style={styles.buttonText}>
+                  {codeSent ? "Anmelden" : "Code senden"}
+                </Text>
+              )}
+            </Pressable>
+
+            {codeSent && (
+              <Pressable
+                style={styles.secondaryButton}
+                onPress={() => {
+                  setCodeSent(false);
+                  setCode("");
+                  setError(null);
+                }}
+              >
+                <Text style={styles.secondaryButtonText}>Andere E-Mail verwenden</Text>
+              </Pressable>
+            )}
+          </View>
+
+          {user?.email && (
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Geräte</Text>
+              {sessions === undefined ? (
+                <ActivityIndicator color="#5A594E" />
+              ) : (
+                sessions.map((session) => (
+                  <View key={session._id} style={styles.sessionRow}>
+                    <View style={styles.sessionInfo}>
+                      <Text style={styles.sessionLabel}>
+                        {session.deviceLabel}
+                        {session.isCurrent && (
+                          <Text style={styles.sessionCurrent}> · Dieses Gerät</Text>
+                        )}
+                      </Text>
+                      <Text style={styles.sessionMeta}>
+                        Zuletzt aktiv am{" "}
+                        {new Date(session.lastSeenAt).toLocaleDateString("de-DE")}
+                      </Text>
+                    </View>
+                    {!session.isCurrent && (
+                      <Pressable onPress={() => handleRevokeSession(session._id)}>
+                        <Text style={styles.sessionRevoke}>Abmelden</Text>
+                      </Pressable>
+                    )}
+                  </View>
+                ))
+              )}
+
+              <Pressable
+                style={[styles.button, isLoading && styles.buttonDisabled]}
+                onPress={() => handleSignOut(false)}
+                disabled={isLoading}
+              >
+                <Text style={styles.buttonText}>Abmelden</Text>
+              </Pressable>
+              <Pressable
+                style={styles.secondaryButton}
+                onPress={() => handleSignOut(true)}
+                disabled={isLoading}
+              >
+                <Text style={styles.secondaryButtonText}>Überall abmelden</Text>
+              </Pressable>
+            </View>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#FAF9F6",
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: 16,
+    gap: 16,
+    maxWidth: 500,
+    width: "100%",
+    alignSelf: "center",
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  card: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#1A1A1A",
+    marginBottom: 8,
+  },
+  cardText: {
+    fontSize: 14,
+    color: "#666666",
+    lineHeight: 20,
+  },
+  email: {
+    fontWeight: "700",
+    color: "#1A1A1A",
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: "#666666",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  input: {
+    backgroundColor: "#F5F4EF",
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: "#1A1A1A",
+    borderWidth: 1,
+    borderColor: "#E5E5E5",
+  },
+  hint: {
+    fontSize: 13,
+    color: "#666666",
+    marginTop: 12,
+  },
+  successContainer: {
+    backgroundColor: "#D4EDDA",
+    padding: 12,
+    borderRadius: 8,
+  },
+  successText: {
+    color: "#155724",
+    fontSize: 14,
+    textAlign: "center",
+  },
+  errorContainer: {
+    backgroundColor: "#F8D7DA",
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 12,
+  },
+  errorText: {
+    color: "#721C24",
+    fontSize: 14,
+    textAlign: "center",
+  },
+  button: {
+    backgroundColor: "#5A594E",
+    paddingVertical: 14,
+    borderRadius: 24,
+    alignItems: "center",
+    marginTop: 16,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  buttonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    paddingVertical: 12,
+    alignItems: "center",
+    marginTop: 8,
+  },
+  secondaryButtonText: {
+    color: "#5A594E",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  sessionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: "#F0EFEA",
+  },
+  sessionInfo: {
+    flex: 1,
+  },
+  sessionLabel: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  sessionCurrent: {
+    fontWeight: "400",
+    color: "#666666",
+  },
+  sessionMeta: {
+    fontSize: 13,
+    color: "#666666",
+    marginTop: 2,
+  },
+  sessionRevoke: {
+    color: "#B00020",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
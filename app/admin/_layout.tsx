@@ -53,6 +53,30 @@ export default function AdminLayout() {
           title: "Spielbretter verwalten",
         }}
       />
+      <Stack.Screen
+        name="password"
+        options={{
+          title: "Passwort ändern",
+        }}
+      />
+      <Stack.Screen
+        name="schedule"
+        options={{
+          title: "Spielplan",
+        }}
+      />
+      <Stack.Screen
+        name="revisions"
+        options={{
+          title: "Versionen",
+        }}
+      />
+      <Stack.Screen
+        name="import"
+        options={{
+          title: "Import / Export",
+        }}
+      />
       <Stack.Screen
         name="board-editor"
         options={{
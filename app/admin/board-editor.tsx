@@ -14,10 +14,10 @@ import {
 import { useRouter, useLocalSearchParams } from "expo-router";
 import { useQuery, useMutation } from "convex/react";
 import { api } from "@/convex/_generated/api";
+import { useAdmin } from "@/contexts/AdminContext";
 import { Id } from "@/convex/_generated/dataModel";
 import { getDifficultyColor, getDifficultyLabel, Difficulty } from "@/utils/gameLogic";
-
-const DIFFICULTIES: Difficulty[] = ["easy", "medium", "hard", "very-hard"];
+import { DIFFICULTIES, normalizeGroups, validateBoard } from "@/utils/boardValidation";
 
 interface GroupInput {
   name: string;
@@ -33,12 +33,19 @@ const emptyGroup = (difficulty: Difficulty): GroupInput => ({
 
 export default function BoardEditorScreen() {
   const router = useRouter();
-  const { boardId } = useLocalSearchParams<{ boardId?: string }>();
+  // A new board can be given a day, e.g. from the Spielplan
+  const { boardId, date: initialDate } = useLocalSearchParams<{
+    boardId?: string;
+    date?: string;
+  }>();
   const isEditing = !!boardId;
+  const { adminToken } = useAdmin();
 
   const existingBoard = useQuery(
-    api.boards.getBoard,
-    boardId ? { boardId: boardId as Id<"boards"> } : "skip"
+    api.boards.getBoardForAdmin,
+    boardId && adminToken
+      ? { adminToken, boardId: boardId as Id<"boards"> }
+      : "skip"
   );
 
   const createBoard = useMutation(api.boards.createBoard);
@@ -47,11 +54,20 @@ export default function BoardEditorScreen() {
   const [groups, setGroups] = useState<GroupInput[]>(
     DIFFICULTIES.map((d) => emptyGroup(d))
   );
-  const [date, setDate] = useState("");
+  const [date, setDate] = useState(initialDate ?? "");
+  const [swapDates, setSwapDates] = useState(false);
   const [isPastPool, setIsPastPool] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Another board already planned for the chosen day
+  const dateConflict = useQuery(
+    api.boards.getDateConflict,
+    adminToken && /^\d{4}-\d{2}-\d{2}$/.test(date)
+      ? { adminToken, date, boardId: boardId as Id<"boards"> | undefined }
+      : "skip"
+  );
+
   // Load existing board data
   useEffect(() => {
     if (existingBoard) {
@@ -85,43 +101,14 @@ export default function BoardEditorScreen() {
     });
   };
 
-  const validate = (): string | null => {
-    // Check all groups have names
-    for (const group of groups) {
-      if (!group.name.trim()) {
-        return "Alle Gruppen müssen einen Namen haben";
-      }
-    }
-
-    // Check all words are filled
-    const allWords: string[] = [];
-    for (const group of groups) {
-      for (const word of group.words) {
-        if (!word.trim()) {
-          return "Alle Wörter müssen ausgefüllt sein";
-        }
-        allWords.push(word.trim().toUpperCase());
-      }
-    }
-
-    // Check for unique words
-    const uniqueWords = new Set(allWords);
-    if (uniqueWords.size !== 16) {
-      return "Alle 16 Wörter müssen unterschiedlich sein";
-    }
-
-    // Validate date format if provided
-    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
-      return "Datum muss im Format JJJJ-MM-TT sein";
-    }
-
-    return null;
-  };
+  // Warnings are shown while editing, errors only block saving
+  const validation = validateBoard({ groups, date });
 
   const handleSave = async () => {
-    const validationError = validate();
-    if (validationError) {
-      setError(validationError);
+    if (!adminToken) return;
+
+    if (validation.errors.length > 0) {
+      setError(validation.errors.map((e) => e.message).join("\n"));
       return;
     }
 
@@ -129,15 +116,14 @@ export default function BoardEditorScreen() {
     setError(null);
 
     try {
+      const normalizedGroups = normalizeGroups(groups);
       const boardData = {
-        words: groups.flatMap((g) => g.words.map((w) => w.trim().toUpperCase())),
-        groups: groups.map((g) => ({
-          name: g.name.trim(),
-          words: g.words.map((w) => w.trim().toUpperCase()),
-          difficulty: g.difficulty,
-        })),
+        adminToken,
+        words: normalizedGroups.flatMap((g) => g.words),
+        groups: normalizedGroups,
         date: date || undefined,
         isPastPool,
+        onDateConflict: swapDates ? ("swap" as const) : ("reject" as const),
       };
 
       if (isEditing) {
@@ -177,6 +163,33 @@ export default function BoardEditorScreen() {
           placeholder="JJJJ-MM-TT (z.B. 2025-12-25)"
           placeholderTextColor="#666666"
         />
+        {dateConflict && (
+          <View style={styles.conflictContainer}>
+            <Text style={styles.conflictText}>
+              Für diesen Tag ist bereits ein Spielbrett geplant:{" "}
+              {dateConflict.groupNames.join(", ")}
+            </Text>
+            {dateConflict.isPublished ? (
+              <Text style={styles.conflictHint}>
+                Es wurde schon veröffentlicht, bitte einen anderen Tag wählen.
+              </Text>
+            ) : (
+              <View style={styles.conflictSwapRow}>
+                <Text style={styles.conflictHint}>
+                  {existingBoard?.date
+                    ? `Tauschen: das andere Spielbrett bekommt den ${existingBoard.date}`
+                    : "Tauschen: das andere Spielbrett verliert sein Datum"}
+                </Text>
+                <Switch
+                  value={swapDates}
+                  onValueChange={setSwapDates}
+                  trackColor={{ false: "#3A3A3A", true: "#5A7355" }}
+                  thumbColor={swapDates ? "#8B7355" : "#666666"}
+                />
+              </View>
+            )}
+          </View>
+        )}
       </View>
 
       {/* Past pool toggle */}
@@ -184,7 +197,7 @@ export default function BoardEditorScreen() {
         <View>
           <Text style={styles.toggleLabel}>Archiv-Pool</Text>
           <Text style={styles.toggleHint}>
-            Aktivieren für zufällige Archivspiele
+            Datierte Rätsel kommen nach ihrem Tag automatisch hinzu
           </Text>
         </View>
         <Switch
@@ -247,6 +260,17 @@ export default function BoardEditorScreen() {
         ))}
       </View>
 
+      {/* Warnings */}
+      {validation.warnings.length > 0 && (
+        <View style={styles.warningContainer}>
+          {validation.warnings.map((warning, index) => (
+            <Text key={index} style={styles.warningText}>
+              {warning.message}
+            </Text>
+          ))}
+        </View>
+      )}
+
       {/* Error message */}
       {error && (
         <View style={styles.errorContainer}>
@@ -312,6 +336,28 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: "#2A2A2A",
   },
+  conflictContainer: {
+    backgroundColor: "#3A3320",
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 8,
+    gap: 8,
+  },
+  conflictText: {
+    color: "#E5C07B",
+    fontSize: 14,
+  },
+  conflictSwapRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: 12,
+  },
+  conflictHint: {
+    flex: 1,
+    color: "#CCCCCC",
+    fontSize: 12,
+  },
   toggleRow: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -382,6 +428,17 @@ const styles = StyleSheet.create({
     width: "48%",
     textTransform: "uppercase",
   },
+  warningContainer: {
+    backgroundColor: "#3A3320",
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 16,
+    gap: 4,
+  },
+  warningText: {
+    color: "#E5C07B",
+    fontSize: 14,
+  },
   errorContainer: {
     backgroundColor: "#4A2020",
     padding: 12,
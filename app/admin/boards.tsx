@@ -10,53 +10,305 @@ import {
   Platform,
 } from "react-native";
 import { useRouter } from "expo-router";
-import { useQuery, useMutation } from "convex/react";
+import { useQuery, useMutation, useConvex } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import { useAdmin } from "@/contexts/AdminContext";
-import { formatDate, getDifficultyColor } from "@/utils/gameLogic";
+import {
+  formatDate,
+  formatTimestamp,
+  getDifficultyColor,
+  getDifficultyLabel,
+  getPuzzleDate,
+} from "@/utils/gameLogic";
+import {
+  BOARD_STATUS_TRANSITIONS,
+  BoardStatus,
+  getBoardStatusActionLabel,
+  getBoardStatusColor,
+  getBoardStatusLabel,
+  getStatusChangeError,
+} from "@/utils/boardStatus";
+import { PUZZLE_TIME_ZONE } from "@/hooks/usePuzzleDate";
 import { Id } from "@/convex/_generated/dataModel";
 
+// How players did on a board, loaded once the admin opens it
+function BoardStats({ adminToken, boardId }: { adminToken: string; boardId: Id<"boards"> }) {
+  const stats = useQuery(api.boardStats.getBoardStatsForAdmin, { adminToken, boardId });
+
+  if (stats === undefined) {
+    return <ActivityIndicator size="small" color="#8B7355" style={styles.statsLoading} />;
+  }
+
+  if (stats.plays === 0) {
+    return <Text style={styles.statsEmpty}>Noch nicht gespielt.</Text>;
+  }
+
+  return (
+    <View style={styles.statsContainer}>
+      <Text style={styles.statsSummary}>
+        {stats.plays} Spiele • {stats.winRate} % gewonnen • Ø{" "}
+        {stats.averageMistakes.toLocaleString("de-DE")} Fehler
+      </Text>
+
+      <Text style={styles.statsHeading}>Lösungsreihenfolge</Text>
+      {stats.solveOrder.map((group) => (
+        <View key={group.groupName} style={styles.statsRow}>
+          <View
+            style={[styles.statsSwatch, { backgroundColor: getDifficultyColor(group.difficulty) }]}
+          />
+          <Text style={styles.statsText}>{group.groupName}</Text>
+          <Text style={styles.statsValue}>
+            {group.averagePosition !== null
+              ? `Ø Platz ${group.averagePosition.toLocaleString("de-DE")} • ${group.solvedCount}× gefunden`
+              : "nie gefunden"}
+          </Text>
+        </View>
+      ))}
+
+      <Text style={styles.statsHeading}>Häufigste Fehlversuche</Text>
+      {stats.commonWrongGuesses.length === 0 ? (
+        <Text style={styles.statsEmpty}>Keine Fehlversuche.</Text>
+      ) : (
+        stats.commonWrongGuesses.map((guess) => (
+          <View key={guess.words.join("|")} style={styles.statsRow}>
+            <Text style={styles.statsText}>
+              {guess.words.join(" • ")}
+              {guess.nearGroupName ? ` (knapp: ${guess.nearGroupName})` : ""}
+            </Text>
+            <Text style={styles.statsValue}>{guess.count}×</Text>
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
+
+function showError(error: any) {
+  if (Platform.OS === "web") {
+    alert("Fehler: " + error.message);
+  } else {
+    Alert.alert("Fehler", error.message);
+  }
+}
+
+function confirmAction(title: string, message: string, action: string, onConfirm: () => void) {
+  if (Platform.OS === "web") {
+    if (confirm(message)) onConfirm();
+    return;
+  }
+  Alert.alert(title, message, [
+    { text: "Abbrechen", style: "cancel" },
+    { text: action, style: "destructive", onPress: onConfirm },
+  ]);
+}
+
+// Deleted boards, which can be restored or purged for good
+function Trash({ adminToken }: { adminToken: string }) {
+  const boards = useQuery(api.boards.listDeletedBoards, { adminToken });
+  const restoreBoard = useMutation(api.boards.restoreBoard);
+  const purgeBoard = useMutation(api.boards.purgeBoard);
+  const [busyId, setBusyId] = useState<Id<"boards"> | null>(null);
+
+  const performRestore = async (boardId: Id<"boards">) => {
+    setBusyId(boardId);
+    try {
+      const result = await restoreBoard({ adminToken, boardId });
+      if (result.dateCleared) {
+        const message =
+          "Das Datum ist inzwischen vergeben. Das Spielbrett wurde ohne Datum wiederhergestellt.";
+        if (Platform.OS === "web") {
+          alert(message);
+        } else {
+          Alert.alert("Wiederhergestellt", message);
+        }
+      }
+    } catch (error: any) {
+      console.error("Failed to restore board:", error);
+      showError(error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const performPurge = async (boardId: Id<"boards">, history: "delete" | "anonymize") => {
+    setBusyId(boardId);
+    try {
+      await purgeBoard({ adminToken, boardId, history });
+    } catch (error: any) {
+      console.error("Failed to purge board:", error);
+      showError(error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (boards === undefined) {
+    return <ActivityIndicator size="large" color="#8B7355" />;
+  }
+
+  if (boards.length === 0) {
+    return (
+      <View style={styles.emptyContainer}>
+        <Text style={styles.emptyText}>Der Papierkorb ist leer.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.boardList}>
+      {boards.map((board) => (
+        <View key={board._id} style={styles.boardCard}>
+          <Text style={styles.boardDate}>
+            {board.date ? formatDate(board.date) : "Kein Datum"}
+          </Text>
+          <Text style={styles.boardId}>
+            {board.puzzleNumber ? `#${board.puzzleNumber} · ` : ""}ID: {board._id}
+          </Text>
+          <Text style={styles.trashMeta}>Gelöscht: {formatTimestamp(board.deletedAt!)}</Text>
+          <Text style={styles.wordText}>{board.groups.map((g) => g.name).join(" • ")}</Text>
+
+          <View style={styles.statusActions}>
+            {busyId === board._id ? (
+              <ActivityIndicator size="small" color="#8B7355" />
+            ) : (
+              <>
+                <Pressable
+                  style={styles.statusButton}
+                  onPress={() => performRestore(board._id)}
+                >
+                  <Text style={styles.statusButtonText}>Wiederherstellen</Text>
+                </Pressable>
+                <Pressable
+                  style={styles.statusButton}
+                  onPress={() =>
+                    confirmAction(
+                      "Endgültig löschen",
+                      "Spielbrett endgültig löschen? Die Spiele darauf zählen weiter für die Statistik, die Rateversuche werden aber entfernt.",
+                      "Löschen",
+                      () => performPurge(board._id, "anonymize")
+                    )
+                  }
+                >
+                  <Text style={styles.statusButtonText}>Löschen, Verlauf behalten</Text>
+                </Pressable>
+                <Pressable
+                  style={styles.deleteButton}
+                  onPress={() =>
+                    confirmAction(
+                      "Endgültig löschen",
+                      "Spielbrett und alle Spiele darauf endgültig löschen? Die Statistiken der Spieler werden neu berechnet.",
+                      "Löschen",
+                      () => performPurge(board._id, "delete")
+                    )
+                  }
+                >
+                  <Text style={styles.deleteButtonText}>Endgültig löschen</Text>
+                </Pressable>
+              </>
+            )}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
 export default function BoardsScreen() {
   const router = useRouter();
-  const { logout } = useAdmin();
+  const convex = useConvex();
+  const { adminToken, logout } = useAdmin();
+  const [showTrash, setShowTrash] = useState(false);
   const [deletingId, setDeletingId] = useState<Id<"boards"> | null>(null);
+  const [statsBoardId, setStatsBoardId] = useState<Id<"boards"> | null>(null);
+  const [relabelingId, setRelabelingId] = useState<Id<"boards"> | null>(null);
+  const [changingStatusId, setChangingStatusId] = useState<Id<"boards"> | null>(null);
 
-  const boards = useQuery(api.boards.listBoards);
+  const boards = useQuery(
+    api.boards.listBoards,
+    adminToken ? { adminToken } : "skip"
+  );
+  const calibrations = useQuery(
+    api.calibration.listCalibrations,
+    adminToken ? { adminToken } : "skip"
+  );
   const deleteBoard = useMutation(api.boards.deleteBoard);
+  const applyCalibration = useMutation(api.calibration.applyCalibration);
+  const setBoardStatus = useMutation(api.boards.setBoardStatus);
   const seedBoards = useMutation(api.boards.seedSampleBoards);
 
+  // Deleting moves the board to the trash, after warning how often it was played
   const handleDelete = async (boardId: Id<"boards">) => {
-    if (Platform.OS === "web") {
-      if (!confirm("Spielbrett wirklich löschen?")) return;
-    } else {
-      Alert.alert(
-        "Spielbrett löschen",
-        "Bist du sicher, dass du dieses Spielbrett löschen möchtest?",
-        [
-          { text: "Abbrechen", style: "cancel" },
-          {
-            text: "Löschen",
-            style: "destructive",
-            onPress: () => performDelete(boardId),
-          },
-        ]
-      );
+    if (!adminToken) return;
+    let playCount;
+    try {
+      playCount = await convex.query(api.boards.getBoardPlayCount, { adminToken, boardId });
+    } catch (error: any) {
+      console.error("Failed to load play count:", error);
+      showError(error);
       return;
     }
-    performDelete(boardId);
+
+    const message =
+      (playCount.plays > 0
+        ? `Dieses Spielbrett wurde ${playCount.plays}× gespielt. `
+        : "Dieses Spielbrett wurde noch nicht gespielt. ") +
+      (playCount.inProgress > 0 ? `${playCount.inProgress} Spiele laufen noch. ` : "") +
+      "Es kommt in den Papierkorb und kann von dort wiederhergestellt werden.";
+    confirmAction("Spielbrett löschen", message, "Löschen", () => performDelete(boardId));
   };
 
   const performDelete = async (boardId: Id<"boards">) => {
+    if (!adminToken) return;
     setDeletingId(boardId);
     try {
-      await deleteBoard({ boardId });
-    } catch (error) {
+      await deleteBoard({ adminToken, boardId });
+    } catch (error: any) {
       console.error("Failed to delete board:", error);
+      showError(error);
     } finally {
       setDeletingId(null);
     }
   };
 
+  const handleRelabel = async (boardId: Id<"boards">) => {
+    if (!adminToken) return;
+    setRelabelingId(boardId);
+    try {
+      await applyCalibration({ adminToken, boardId });
+    } catch (error: any) {
+      console.error("Failed to relabel board:", error);
+      if (Platform.OS === "web") {
+        alert("Fehler: " + error.message);
+      } else {
+        Alert.alert("Fehler", error.message);
+      }
+    } finally {
+      setRelabelingId(null);
+    }
+  };
+
+  const handleStatusChange = async (boardId: Id<"boards">, status: BoardStatus) => {
+    if (!adminToken) return;
+    setChangingStatusId(boardId);
+    try {
+      await setBoardStatus({ adminToken, boardId, status });
+    } catch (error: any) {
+      console.error("Failed to change board status:", error);
+      if (Platform.OS === "web") {
+        alert("Fehler: " + error.message);
+      } else {
+        Alert.alert("Fehler", error.message);
+      }
+    } finally {
+      setChangingStatusId(null);
+    }
+  };
+
+  const today = getPuzzleDate(PUZZLE_TIME_ZONE);
+  const calibrationByBoard = new Map(
+    (calibrations ?? []).map((calibration) => [calibration.boardId, calibration])
+  );
+
   const handleSeedBoards = async () => {
     try {
       const result = await seedBoards();
@@ -90,6 +342,23 @@ export default function BoardsScreen() {
           <Pressable style={styles.seedButton} onPress={handleSeedBoards}>
             <Text style={styles.seedButtonText}>Beispiele laden</Text>
           </Pressable>
+          <Pressable style={styles.seedButton} onPress={() => router.push("/admin/schedule")}>
+            <Text style={styles.seedButtonText}>Spielplan</Text>
+          </Pressable>
+          <Pressable style={styles.seedButton} onPress={() => router.push("/admin/import")}>
+            <Text style={styles.seedButtonText}>Import / Export</Text>
+          </Pressable>
+          <Pressable style={styles.seedButton} onPress={() => setShowTrash(!showTrash)}>
+            <Text style={styles.seedButtonText}>
+              {showTrash ? "Alle Spielbretter" : "Papierkorb"}
+            </Text>
+          </Pressable>
+          <Pressable
+            style={styles.seedButton}
+            onPress={() => router.push("/admin/password")}
+          >
+            <Text style={styles.seedButtonText}>Passwort ändern</Text>
+          </Pressable>
           <Pressable style={styles.logoutButton} onPress={logout}>
             <Text style={styles.logoutButtonText}>Abmelden</Text>
           </Pressable>
@@ -97,104 +366,205 @@ export default function BoardsScreen() {
       </View>
 
       <ScrollView contentContainerStyle={styles.scrollContent}>
-        <Pressable
-          style={styles.createButton}
-          onPress={() => router.push("/admin/board-editor")}
-        >
-          <Text style={styles.createButtonText}>+ Neues Spielbrett</Text>
-        </Pressable>
-
-        {boards.length === 0 ? (
-          <View style={styles.emptyContainer}>
-            <Text style={styles.emptyText}>
-              Noch keine Spielbretter vorhanden.
-            </Text>
-            <Text style={styles.emptyHint}>
-              Klicke auf "Beispiele laden" um Demo-Spielbretter zu erstellen.
-            </Text>
-          </View>
+        {showTrash && adminToken ? (
+          <Trash adminToken={adminToken} />
         ) : (
-          <View style={styles.boardList}>
-            {boards.map((board) => (
-              <View key={board._id} style={styles.boardCard}>
-                <View style={styles.boardHeader}>
-                  <View>
-                    <Text style={styles.boardDate}>
-                      {board.date ? formatDate(board.date) : "Kein Datum"}
-                    </Text>
-                    <Text style={styles.boardId}>ID: {board._id}</Text>
-                    <View style={styles.badgeRow}>
-                      {board.isPastPool && (
-                        <View style={styles.poolBadge}>
-                          <Text style={styles.poolBadgeText}>Archiv</Text>
+          <>
+            <Pressable
+              style={styles.createButton}
+              onPress={() => router.push("/admin/board-editor")}
+            >
+              <Text style={styles.createButtonText}>+ Neues Spielbrett</Text>
+            </Pressable>
+
+            {boards.length === 0 ? (
+              <View style={styles.emptyContainer}>
+                <Text style={styles.emptyText}>
+                  Noch keine Spielbretter vorhanden.
+                </Text>
+                <Text style={styles.emptyHint}>
+                  Klicke auf "Beispiele laden" um Demo-Spielbretter zu erstellen.
+                </Text>
+              </View>
+            ) : (
+              <View style={styles.boardList}>
+                {boards.map((board) => {
+                  const calibration = calibrationByBoard.get(board._id);
+                  return (
+                    <View key={board._id} style={styles.boardCard}>
+                      <View style={styles.boardHeader}>
+                        <View>
+                          <Text style={styles.boardDate}>
+                            {board.date ? formatDate(board.date) : "Kein Datum"}
+                          </Text>
+                          <Text style={styles.boardId}>
+                            {board.puzzleNumber ? `#${board.puzzleNumber} · ` : ""}ID: {board._id}
+                          </Text>
+                          <View style={styles.badgeRow}>
+                            <View style={styles.statusBadge}>
+                              <Text
+                                style={[
+                                  styles.statusBadgeText,
+                                  { color: getBoardStatusColor(board.status) },
+                                ]}
+                              >
+                                {getBoardStatusLabel(board.status)}
+                              </Text>
+                            </View>
+                            {board.isPastPool && (
+                              <View style={styles.poolBadge}>
+                                <Text style={styles.poolBadgeText}>Archiv</Text>
+                              </View>
+                            )}
+                            {board.date === today && (
+                              <View style={styles.todayBadge}>
+                                <Text style={styles.todayBadgeText}>Heute</Text>
+                              </View>
+                            )}
+                            {calibration?.disagrees && (
+                              <View style={styles.calibrationBadge}>
+                                <Text style={styles.calibrationBadgeText}>Schwierigkeit prüfen</Text>
+                              </View>
+                            )}
+                          </View>
                         </View>
-                      )}
-                      {board.date === new Date().toISOString().split("T")[0] && (
-                        <View style={styles.todayBadge}>
-                          <Text style={styles.todayBadgeText}>Heute</Text>
+                        <View style={styles.cardActions}>
+                          <Pressable
+                            style={styles.editButton}
+                            onPress={() =>
+                              setStatsBoardId(statsBoardId === board._id ? null : board._id)
+                            }
+                          >
+                            <Text style={styles.editButtonText}>Statistik</Text>
+                          </Pressable>
+                          <Pressable
+                            style={styles.testPlayButton}
+                            onPress={() =>
+                              router.push(`/game/test/${board._id}`)
+                            }
+                          >
+                            <Text style={styles.testPlayButtonText}>Testen</Text>
+                          </Pressable>
+                          <Pressable
+                            style={styles.editButton}
+                            onPress={() =>
+                              router.push({
+                                pathname: "/admin/board-editor",
+                                params: { boardId: board._id },
+                              })
+                            }
+                          >
+                            <Text style={styles.editButtonText}>Bearbeiten</Text>
+                          </Pressable>
+                          <Pressable
+                            style={styles.editButton}
+                            onPress={() =>
+                              router.push({
+                                pathname: "/admin/revisions",
+                                params: { boardId: board._id },
+                              })
+                            }
+                          >
+                            <Text style={styles.editButtonText}>Versionen</Text>
+                          </Pressable>
+                          <Pressable
+                            style={styles.deleteButton}
+                            onPress={() => handleDelete(board._id)}
+                            disabled={deletingId === board._id}
+                          >
+                            {deletingId === board._id ? (
+                              <ActivityIndicator size="small" color="#FF6B6B" />
+                            ) : (
+                              <Text style={styles.deleteButtonText}>Löschen</Text>
+                            )}
+                          </Pressable>
                         </View>
-                      )}
-                    </View>
-                  </View>
-                  <View style={styles.cardActions}>
-                    <Pressable
-                      style={styles.testPlayButton}
-                      onPress={() =>
-                        router.push(`/game/test/${board._id}`)
-                      }
-                    >
-                      <Text style={styles.testPlayButtonText}>Testen</Text>
-                    </Pressable>
-                    <Pressable
-                      style={styles.editButton}
-                      onPress={() =>
-                        router.push({
-                          pathname: "/admin/board-editor",
-                          params: { boardId: board._id },
-                        })
-                      }
-                    >
-                      <Text style={styles.editButtonText}>Bearbeiten</Text>
-                    </Pressable>
-                    <Pressable
-                      style={styles.deleteButton}
-                      onPress={() => handleDelete(board._id)}
-                      disabled={deletingId === board._id}
-                    >
-                      {deletingId === board._id ? (
-                        <ActivityIndicator size="small" color="#FF6B6B" />
-                      ) : (
-                        <Text style={styles.deleteButtonText}>Löschen</Text>
-                      )}
-                    </Pressable>
-                  </View>
-                </View>
-
-                <View style={styles.solutionContainer}>
-                  {board.groups.map((group) => (
-                    <View
-                      key={group.name}
-                      style={styles.solutionGroup}
-                    >
-                      <View
-                        style={[
-                          styles.groupHeader,
-                          { backgroundColor: getDifficultyColor(group.difficulty) },
-                        ]}
-                      >
-                        <Text style={styles.groupHeaderText}>{group.name}</Text>
                       </View>
-                      <View style={styles.groupWords}>
-                        <Text style={styles.wordText}>
-                          {group.words.join(" • ")}
-                        </Text>
+
+                      <View style={styles.solutionContainer}>
+                        {board.groups.map((group) => (
+                          <View
+                            key={group.name}
+                            style={styles.solutionGroup}
+                          >
+                            <View
+                              style={[
+                                styles.groupHeader,
+                                { backgroundColor: getDifficultyColor(group.difficulty) },
+                              ]}
+                            >
+                              <Text style={styles.groupHeaderText}>{group.name}</Text>
+                            </View>
+                            <View style={styles.groupWords}>
+                              <Text style={styles.wordText}>
+                                {group.words.join(" • ")}
+                              </Text>
+                            </View>
+                          </View>
+                        ))}
+                      </View>
+
+                      <View style={styles.statusActions}>
+                        {BOARD_STATUS_TRANSITIONS[board.status]
+                          .filter((to) => getStatusChangeError(board, to, today) === null)
+                          .map((to) => (
+                            <Pressable
+                              key={to}
+                              style={styles.statusButton}
+                              onPress={() => handleStatusChange(board._id, to)}
+                              disabled={changingStatusId === board._id}
+                            >
+                              <Text style={styles.statusButtonText}>
+                                {getBoardStatusActionLabel(to)}
+                              </Text>
+                            </Pressable>
+                          ))}
                       </View>
+
+                      {calibration?.disagrees && (
+                        <View style={styles.calibrationContainer}>
+                          <Text style={styles.statsHeading}>
+                            Laut Spielerdaten ({calibration.plays} Spiele)
+                          </Text>
+                          {calibration.groups.map((group) => (
+                            <View key={group.name} style={styles.statsRow}>
+                              <Text style={styles.statsText}>{group.name}</Text>
+                              <Text
+                                style={[
+                                  styles.statsValue,
+                                  group.suggested !== group.assigned && styles.calibrationChanged,
+                                ]}
+                              >
+                                {getDifficultyLabel(group.assigned)}
+                                {group.suggested !== group.assigned
+                                  ? ` → ${getDifficultyLabel(group.suggested)}`
+                                  : ""}
+                              </Text>
+                            </View>
+                          ))}
+                          <Pressable
+                            style={styles.relabelButton}
+                            onPress={() => handleRelabel(board._id)}
+                            disabled={relabelingId === board._id}
+                          >
+                            {relabelingId === board._id ? (
+                              <ActivityIndicator size="small" color="#D4AF37" />
+                            ) : (
+                              <Text style={styles.relabelButtonText}>Neu einstufen</Text>
+                            )}
+                          </Pressable>
+                        </View>
+                      )}
+
+                      {statsBoardId === board._id && adminToken && (
+                        <BoardStats adminToken={adminToken} boardId={board._id} />
+                      )}
                     </View>
-                  ))}
-                </View>
+                  );
+                })}
               </View>
-            ))}
-          </View>
+            )}
+          </>
         )}
       </ScrollView>
     </View>
@@ -316,6 +686,39 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     color: "#7BC67B",
   },
+  statusBadge: {
+    backgroundColor: "#2A2A2A",
+    paddingVertical: 2,
+    paddingHorizontal: 8,
+    borderRadius: 4,
+  },
+  statusBadgeText: {
+    fontSize: 11,
+    fontWeight: "600",
+  },
+  trashMeta: {
+    fontSize: 12,
+    color: "#999999",
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  statusActions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginTop: 12,
+  },
+  statusButton: {
+    backgroundColor: "#2A2A2A",
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+  },
+  statusButtonText: {
+    color: "#CCCCCC",
+    fontSize: 12,
+    fontWeight: "600",
+  },
   todayBadge: {
     backgroundColor: "#3A3A2A",
     paddingVertical: 2,
@@ -327,6 +730,40 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     color: "#D4AF37",
   },
+  calibrationBadge: {
+    backgroundColor: "#3A2A1A",
+    paddingVertical: 2,
+    paddingHorizontal: 8,
+    borderRadius: 4,
+  },
+  calibrationBadgeText: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#E8A33D",
+  },
+  calibrationContainer: {
+    marginTop: 16,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#2A2A2A",
+  },
+  calibrationChanged: {
+    color: "#E8A33D",
+    fontWeight: "700",
+  },
+  relabelButton: {
+    backgroundColor: "#3A3A2A",
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 6,
+    alignSelf: "flex-start",
+    marginTop: 8,
+  },
+  relabelButtonText: {
+    color: "#D4AF37",
+    fontSize: 12,
+    fontWeight: "600",
+  },
   cardActions: {
     flexDirection: "row",
     gap: 8,
@@ -397,5 +834,52 @@ const styles = StyleSheet.create({
     color: "#CCCCCC",
     lineHeight: 20,
   },
+  statsLoading: {
+    marginTop: 16,
+  },
+  statsContainer: {
+    marginTop: 16,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: "#2A2A2A",
+  },
+  statsSummary: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#FFFFFF",
+  },
+  statsHeading: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#8B7355",
+    textTransform: "uppercase",
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  statsRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 2,
+    gap: 8,
+  },
+  statsSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 2,
+  },
+  statsText: {
+    flex: 1,
+    fontSize: 13,
+    color: "#CCCCCC",
+  },
+  statsValue: {
+    fontSize: 12,
+    color: "#999999",
+  },
+  statsEmpty: {
+    fontSize: 13,
+    color: "#666666",
+    marginTop: 12,
+  },
 });
 
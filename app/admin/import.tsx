@@ -0,0 +1,312 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  ActivityIndicator,
+} from "react-native";
+import { useAction, useConvex } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { useAdmin } from "@/contexts/AdminContext";
+import { toBoardsCsv, toBoardsJson } from "@/utils/boardTransfer";
+import { shareText } from "@/utils/share";
+
+type Format = "json" | "csv";
+
+interface ImportResult {
+  dryRun: boolean;
+  imported: number;
+  rows: { row: number; errors: string[]; warnings: string[] }[];
+}
+
+export default function ImportExportScreen() {
+  const convex = useConvex();
+  const { adminToken } = useAdmin();
+  const importBoards = useAction(api.boardTransfer.importBoards);
+
+  const [format, setFormat] = useState<Format>("json");
+  const [content, setContent] = useState("");
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [exportFeedback, setExportFeedback] = useState<string | null>(null);
+
+  const handleImport = async (dryRun: boolean) => {
+    if (!adminToken || !content.trim()) return;
+
+    setIsWorking(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      setResult(await importBoards({ adminToken, format, content, dryRun }));
+    } catch (err: any) {
+      setError(err.message || "Import fehlgeschlagen");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleExport = async (exportFormat: Format) => {
+    if (!adminToken) return;
+
+    try {
+      const boards = await convex.query(api.boardTransfer.exportBoards, { adminToken });
+      const text = exportFormat === "json" ? toBoardsJson(boards) : toBoardsCsv(boards);
+      const shared = await shareText(text);
+      setExportFeedback(
+        shared === "copied"
+          ? `${boards.length} Spielbretter in die Zwischenablage kopiert`
+          : `${boards.length} Spielbretter exportiert`
+      );
+    } catch (err: any) {
+      setExportFeedback(err.message || "Export fehlgeschlagen");
+    }
+  };
+
+  const failedRows = result?.rows.filter((r) => r.errors.length > 0) ?? [];
+  const warnedRows = result?.rows.filter((r) => r.warnings.length > 0) ?? [];
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Export</Text>
+        <View style={styles.buttonRow}>
+          <Pressable style={styles.secondaryButton} onPress={() => handleExport("json")}>
+            <Text style={styles.secondaryButtonText}>Als JSON exportieren</Text>
+          </Pressable>
+          <Pressable style={styles.secondaryButton} onPress={() => handleExport("csv")}>
+            <Text style={styles.secondaryButtonText}>Als CSV exportieren</Text>
+          </Pressable>
+        </View>
+        {exportFeedback && <Text style={styles.hintText}>{exportFeedback}</Text>}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Import</Text>
+        <View style={styles.buttonRow}>
+          {(["json", "csv"] as const).map((f) => (
+            <Pressable
+              key={f}
+              style={[styles.formatChip, format === f && styles.formatChipActive]}
+              onPress={() => {
+                setFormat(f);
+                setResult(null);
+              }}
+            >
+              <Text style={styles.formatChipText}>{f.toUpperCase()}</Text>
+            </Pressable>
+          ))}
+        </View>
+        <TextInput
+          style={styles.contentInput}
+          value={content}
+          onChangeText={(value) => {
+            setContent(value);
+            setResult(null);
+          }}
+          placeholder={
+            format === "json"
+              ? '{ "version": 1, "boards": [ ... ] }'
+              : "version,date,isPastPool,group1Name,..."
+          }
+          placeholderTextColor="#666666"
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      </View>
+
+      {error && (
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      )}
+
+      {result && failedRows.length === 0 && (
+        <View style={styles.successContainer}>
+          <Text style={styles.successText}>
+            {result.dryRun
+              ? `${result.rows.length} Spielbretter sind bereit zum Import`
+              : `${result.imported} Spielbretter importiert`}
+          </Text>
+        </View>
+      )}
+
+      {failedRows.length > 0 && (
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorText}>
+            {failedRows.length} fehlerhafte Zeilen, es wurde nichts importiert
+          </Text>
+          {failedRows.map((r) => (
+            <Text key={r.row} style={styles.rowErrorText}>
+              {r.row === 0 ? "Datei" : `Zeile ${r.row}`}: {r.errors.join("; ")}
+            </Text>
+          ))}
+        </View>
+      )}
+
+      {warnedRows.length > 0 && (
+        <View style={styles.warningContainer}>
+          {warnedRows.map((r) => (
+            <Text key={r.row} style={styles.warningText}>
+              Zeile {r.row}: {r.warnings.join("; ")}
+            </Text>
+          ))}
+        </View>
+      )}
+
+      <Pressable
+        style={[styles.secondaryButton, styles.fullWidthButton, isWorking && styles.disabled]}
+        onPress={() => handleImport(true)}
+        disabled={isWorking}
+      >
+        <Text style={styles.secondaryButtonText}>Prüfen</Text>
+      </Pressable>
+
+      <Pressable
+        style={[styles.importButton, isWorking && styles.disabled]}
+        onPress={() => handleImport(false)}
+        disabled={isWorking}
+      >
+        {isWorking ? (
+          <ActivityIndicator color="#FFFFFF" />
+        ) : (
+          <Text style={styles.importButtonText}>Importieren</Text>
+        )}
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#121212",
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 48,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#CCCCCC",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+    marginBottom: 8,
+  },
+  buttonRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+    marginBottom: 8,
+  },
+  secondaryButton: {
+    backgroundColor: "#2A2A2A",
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  secondaryButtonText: {
+    color: "#CCCCCC",
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  fullWidthButton: {
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+  },
+  hintText: {
+    fontSize: 12,
+    color: "#999999",
+  },
+  formatChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#3A3A3A",
+  },
+  formatChipActive: {
+    backgroundColor: "#8B7355",
+    borderColor: "#8B7355",
+  },
+  formatChipText: {
+    color: "#FFFFFF",
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  contentInput: {
+    backgroundColor: "#1E1E1E",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 13,
+    fontFamily: "monospace",
+    color: "#FFFFFF",
+    borderWidth: 1,
+    borderColor: "#2A2A2A",
+    minHeight: 200,
+    textAlignVertical: "top",
+  },
+  errorContainer: {
+    backgroundColor: "#4A2020",
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 16,
+    gap: 4,
+  },
+  errorText: {
+    color: "#FF6B6B",
+    fontSize: 14,
+    textAlign: "center",
+  },
+  rowErrorText: {
+    color: "#FFB3B3",
+    fontSize: 13,
+  },
+  warningContainer: {
+    backgroundColor: "#3A3320",
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 16,
+    gap: 4,
+  },
+  warningText: {
+    color: "#E5C07B",
+    fontSize: 13,
+  },
+  successContainer: {
+    backgroundColor: "#1F3A20",
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  successText: {
+    color: "#7BC47F",
+    fontSize: 14,
+    textAlign: "center",
+  },
+  importButton: {
+    backgroundColor: "#8B7355",
+    padding: 16,
+    borderRadius: 12,
+    alignItems: "center",
+  },
+  importButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  disabled: {
+    opacity: 0.7,
+  },
+});
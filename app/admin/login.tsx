@@ -97,7 +97,7 @@ export default function AdminLoginScreen() {
           </View>
 
           <Text style={styles.hint}>
-            Tipp: Erstelle einen Admin mit der seedAdmin Mutation in der Convex Dashboard.
+            Tipp: Erstelle den ersten Admin mit der seedAdmin Funktion im Convex Dashboard.
           </Text>
         </View>
       </KeyboardAvoidingView>
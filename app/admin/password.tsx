@@ -0,0 +1,212 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  ActivityIndicator,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { useAction } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { useAdmin } from "@/contexts/AdminContext";
+
+export default function ChangePasswordScreen() {
+  const router = useRouter();
+  const { adminToken } = useAdmin();
+  const changePassword = useAction(api.auth.changeAdminPassword);
+
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!adminToken) return;
+
+    if (!currentPassword || !newPassword) {
+      setError("Bitte alle Felder ausfüllen");
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      setError("Die neuen Passwörter stimmen nicht überein");
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    setSuccess(false);
+
+    try {
+      await changePassword({ adminToken, currentPassword, newPassword });
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmPassword("");
+      setSuccess(true);
+    } catch (err: any) {
+      setError(err.message || "Passwort konnte nicht geändert werden");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+      <View style={styles.section}>
+        <Text style={styles.label}>Aktuelles Passwort</Text>
+        <TextInput
+          style={styles.input}
+          value={currentPassword}
+          onChangeText={setCurrentPassword}
+          placeholder="••••••••"
+          placeholderTextColor="#666666"
+          secureTextEntry
+          autoComplete="current-password"
+        />
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.label}>Neues Passwort</Text>
+        <TextInput
+          style={styles.input}
+          value={newPassword}
+          onChangeText={setNewPassword}
+          placeholder="Mindestens 8 Zeichen"
+          placeholderTextColor="#666666"
+          secureTextEntry
+          autoComplete="new-password"
+        />
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.label}>Neues Passwort bestätigen</Text>
+        <TextInput
+          style={styles.input}
+          value={confirmPassword}
+          onChangeText={setConfirmPassword}
+          placeholder="••••••••"
+          placeholderTextColor="#666666"
+          secureTextEntry
+          autoComplete="new-password"
+        />
+      </View>
+
+      {error && (
+        <View style={styles.errorContainer}>
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      )}
+
+      {success && (
+        <View style={styles.successContainer}>
+          <Text style={styles.successText}>Passwort wurde geändert</Text>
+        </View>
+      )}
+
+      <Pressable
+        style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+        onPress={handleSave}
+        disabled={isSaving}
+      >
+        {isSaving ? (
+          <ActivityIndicator color="#FFFFFF" />
+        ) : (
+          <Text style={styles.saveButtonText}>Passwort ändern</Text>
+        )}
+      </Pressable>
+
+      <Pressable style={styles.cancelButton} onPress={() => router.back()}>
+        <Text style={styles.cancelButtonText}>Zurück</Text>
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#121212",
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 48,
+    maxWidth: 400,
+    width: "100%",
+    alignSelf: "center",
+  },
+  section: {
+    marginBottom: 20,
+    gap: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#CCCCCC",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+  },
+  input: {
+    backgroundColor: "#1E1E1E",
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: "#FFFFFF",
+    borderWidth: 1,
+    borderColor: "#2A2A2A",
+  },
+  errorContainer: {
+    backgroundColor: "#4A2020",
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  errorText: {
+    color: "#FF6B6B",
+    fontSize: 14,
+    textAlign: "center",
+  },
+  successContainer: {
+    backgroundColor: "#2A3A2A",
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 16,
+  },
+  successText: {
+    color: "#7BC67B",
+    fontSize: 14,
+    textAlign: "center",
+  },
+  saveButton: {
+    backgroundColor: "#8B7355",
+    padding: 16,
+    borderRadius: 12,
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  saveButtonDisabled: {
+    opacity: 0.7,
+  },
+  saveButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  cancelButton: {
+    backgroundColor: "transparent",
+    padding: 16,
+    borderRadius: 12,
+    alignItems: "center",
+    borderWidth: 1,
+    borderColor: "#3A3A3A",
+  },
+  cancelButtonText: {
+    color: "#999999",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,261 @@
+import React, { useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Alert,
+  ActivityIndicator,
+  Platform,
+} from "react-native";
+import { useLocalSearchParams } from "expo-router";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { useAdmin } from "@/contexts/AdminContext";
+import { Id } from "@/convex/_generated/dataModel";
+import { formatTimestamp, getDifficultyColor, getDifficultyLabel } from "@/utils/gameLogic";
+import { diffBoardGroups, isUnchanged } from "@/utils/boardDiff";
+
+export default function RevisionsScreen() {
+  const { boardId } = useLocalSearchParams<{ boardId: string }>();
+  const { adminToken } = useAdmin();
+
+  const revisions = useQuery(
+    api.revisions.listRevisions,
+    adminToken && boardId ? { adminToken, boardId: boardId as Id<"boards"> } : "skip"
+  );
+  const rollbackBoard = useMutation(api.revisions.rollbackBoard);
+
+  const [selected, setSelected] = useState<number | null>(null);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+
+  if (revisions === undefined) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#8B7355" />
+      </View>
+    );
+  }
+
+  if (revisions === null) {
+    return (
+      <View style={styles.loadingContainer}>
+        <Text style={styles.emptyText}>Spielbrett nicht gefunden.</Text>
+      </View>
+    );
+  }
+
+  const current = revisions.find((r) => r.isCurrent)!;
+  // Compare with the previous revision unless another one is picked
+  const compared =
+    revisions.find((r) => r.revision === selected) ?? revisions.find((r) => !r.isCurrent);
+  const diffs = compared ? diffBoardGroups(compared.groups, current.groups) : [];
+
+  const performRollback = async (revision: number) => {
+    if (!adminToken) return;
+    setIsRollingBack(true);
+    try {
+      await rollbackBoard({ adminToken, boardId: boardId as Id<"boards">, revision });
+      setSelected(null);
+    } catch (error: any) {
+      console.error("Failed to roll back board:", error);
+      if (Platform.OS === "web") {
+        alert("Fehler: " + error.message);
+      } else {
+        Alert.alert("Fehler", error.message);
+      }
+    } finally {
+      setIsRollingBack(false);
+    }
+  };
+
+  const handleRollback = (revision: number) => {
+    const message = `Wörter und Gruppen von Version ${revision} wiederherstellen? Dabei entsteht eine neue Version.`;
+    if (Platform.OS === "web") {
+      if (confirm(message)) performRollback(revision);
+      return;
+    }
+    Alert.alert("Version wiederherstellen", message, [
+      { text: "Abbrechen", style: "cancel" },
+      { text: "Wiederherstellen", onPress: () => performRollback(revision) },
+    ]);
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+      <Text style={styles.sectionTitle}>Versionen</Text>
+      {revisions.map((revision) => (
+        <Pressable
+          key={revision.revision}
+          style={[
+            styles.revisionRow,
+            compared?.revision === revision.revision && styles.revisionRowSelected,
+          ]}
+          onPress={() => !revision.isCurrent && setSelected(revision.revision)}
+        >
+          <Text style={styles.revisionTitle}>
+            Version {revision.revision}
+            {revision.isCurrent ? " (aktuell)" : ""}
+          </Text>
+          <Text style={styles.revisionMeta}>
+            {formatTimestamp(revision.createdAt)} • {revision.plays} Spiele
+          </Text>
+        </Pressable>
+      ))}
+
+      {compared && (
+        <>
+          <Text style={styles.sectionTitle}>
+            Version {compared.revision} → Version {current.revision}
+          </Text>
+          {diffs.every(isUnchanged) ? (
+            <Text style={styles.emptyText}>Keine Unterschiede.</Text>
+          ) : (
+            diffs.map((diff, index) => {
+              const group = diff.after ?? diff.before!;
+              return (
+                <View
+                  key={index}
+                  style={[
+                    styles.diffCard,
+                    { borderLeftColor: getDifficultyColor(group.difficulty) },
+                    isUnchanged(diff) && styles.diffCardUnchanged,
+                  ]}
+                >
+                  <Text style={styles.diffName}>
+                    {diff.before && diff.after && diff.before.name !== diff.after.name
+                      ? `${diff.before.name} → ${diff.after.name}`
+                      : group.name}
+                    {!diff.after ? " (entfernt)" : !diff.before ? " (neu)" : ""}
+                  </Text>
+                  {diff.before &&
+                    diff.after &&
+                    diff.before.difficulty !== diff.after.difficulty && (
+                      <Text style={styles.diffText}>
+                        {getDifficultyLabel(diff.before.difficulty)} →{" "}
+                        {getDifficultyLabel(diff.after.difficulty)}
+                      </Text>
+                    )}
+                  {diff.removedWords.length > 0 && (
+                    <Text style={styles.removedText}>− {diff.removedWords.join(" • ")}</Text>
+                  )}
+                  {diff.addedWords.length > 0 && (
+                    <Text style={styles.addedText}>+ {diff.addedWords.join(" • ")}</Text>
+                  )}
+                </View>
+              );
+            })
+          )}
+
+          <Pressable
+            style={[styles.rollbackButton, isRollingBack && styles.disabled]}
+            onPress={() => handleRollback(compared.revision)}
+            disabled={isRollingBack}
+          >
+            {isRollingBack ? (
+              <ActivityIndicator color="#FFFFFF" />
+            ) : (
+              <Text style={styles.rollbackButtonText}>
+                Auf Version {compared.revision} zurücksetzen
+              </Text>
+            )}
+          </Pressable>
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#121212",
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 48,
+    gap: 8,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#121212",
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#CCCCCC",
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#666666",
+  },
+  revisionRow: {
+    backgroundColor: "#1E1E1E",
+    borderRadius: 8,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: "#2A2A2A",
+  },
+  revisionRowSelected: {
+    borderColor: "#8B7355",
+  },
+  revisionTitle: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#FFFFFF",
+  },
+  revisionMeta: {
+    fontSize: 12,
+    color: "#999999",
+    marginTop: 2,
+  },
+  diffCard: {
+    backgroundColor: "#1E1E1E",
+    borderRadius: 8,
+    padding: 12,
+    borderLeftWidth: 4,
+    gap: 4,
+  },
+  diffCardUnchanged: {
+    opacity: 0.5,
+  },
+  diffName: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#FFFFFF",
+  },
+  diffText: {
+    fontSize: 13,
+    color: "#CCCCCC",
+  },
+  removedText: {
+    fontSize: 13,
+    color: "#FF6B6B",
+  },
+  addedText: {
+    fontSize: 13,
+    color: "#7BC67B",
+  },
+  rollbackButton: {
+    backgroundColor: "#8B7355",
+    padding: 16,
+    borderRadius: 12,
+    alignItems: "center",
+    marginTop: 16,
+  },
+  rollbackButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  disabled: {
+    opacity: 0.7,
+  },
+});
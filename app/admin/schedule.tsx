@@ -0,0 +1,147 @@
+import React from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  ActivityIndicator,
+} from "react-native";
+import { useRouter } from "expo-router";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { useAdmin } from "@/contexts/AdminContext";
+import { formatDate } from "@/utils/gameLogic";
+import { getBoardStatusColor, getBoardStatusLabel } from "@/utils/boardStatus";
+
+const SCHEDULE_DAYS = 60;
+
+export default function ScheduleScreen() {
+  const router = useRouter();
+  const { adminToken } = useAdmin();
+
+  const schedule = useQuery(
+    api.schedule.getSchedule,
+    adminToken ? { adminToken, days: SCHEDULE_DAYS } : "skip"
+  );
+
+  if (schedule === undefined) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#8B7355" />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.scrollContent}>
+      <Text style={styles.summary}>
+        {schedule.emptyDays.length === 0
+          ? `Die nächsten ${SCHEDULE_DAYS} Tage sind geplant.`
+          : `${schedule.emptyDays.length} von ${SCHEDULE_DAYS} Tagen ohne Spielbrett`}
+        {schedule.conflictDays.length > 0 &&
+          ` • ${schedule.conflictDays.length} Tage doppelt belegt`}
+      </Text>
+
+      {schedule.days.map((day) => {
+        const isEmpty = schedule.emptyDays.includes(day.date);
+        const isConflict = day.boards.length > 1;
+
+        return (
+          <Pressable
+            key={day.date}
+            style={[
+              styles.dayRow,
+              isEmpty && styles.dayRowEmpty,
+              isConflict && styles.dayRowConflict,
+            ]}
+            onPress={() =>
+              router.push({
+                pathname: "/admin/board-editor",
+                params:
+                  day.boards.length === 0 ? { date: day.date } : { boardId: day.boards[0]._id },
+              })
+            }
+          >
+            <Text style={styles.dayDate}>{formatDate(day.date)}</Text>
+            {day.boards.length === 0 ? (
+              <Text style={styles.emptyText}>Kein Spielbrett – tippen zum Anlegen</Text>
+            ) : (
+              day.boards.map((board) => (
+                <Text key={board._id} style={styles.boardText} numberOfLines={1}>
+                  <Text style={{ color: getBoardStatusColor(board.status) }}>
+                    {getBoardStatusLabel(board.status)}
+                  </Text>
+                  {" · "}
+                  {board.puzzleNumber ? `#${board.puzzleNumber} · ` : ""}
+                  {board.groupNames.join(", ")}
+                </Text>
+              ))
+            )}
+            {isConflict && (
+              <Text style={styles.conflictText}>
+                Mehrere Spielbretter an diesem Tag, bitte eines verschieben
+              </Text>
+            )}
+          </Pressable>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#121212",
+  },
+  scrollContent: {
+    padding: 16,
+    paddingBottom: 48,
+    gap: 8,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    backgroundColor: "#121212",
+  },
+  summary: {
+    fontSize: 14,
+    color: "#CCCCCC",
+    marginBottom: 8,
+  },
+  dayRow: {
+    backgroundColor: "#1E1E1E",
+    borderRadius: 8,
+    padding: 12,
+    borderLeftWidth: 4,
+    borderLeftColor: "#5A7355",
+  },
+  dayRowEmpty: {
+    backgroundColor: "#2A1E1E",
+    borderLeftColor: "#FF6B6B",
+  },
+  dayRowConflict: {
+    borderLeftColor: "#E8A33D",
+  },
+  dayDate: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#FFFFFF",
+    marginBottom: 4,
+  },
+  boardText: {
+    fontSize: 13,
+    color: "#999999",
+  },
+  emptyText: {
+    fontSize: 13,
+    color: "#FF6B6B",
+  },
+  conflictText: {
+    fontSize: 12,
+    color: "#E8A33D",
+    marginTop: 4,
+  },
+});
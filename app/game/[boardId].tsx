@@ -1,8 +1,21 @@
+import { GameBoard } from "@/components/game/GameBoard";
+import { BoardSummary } from "@/components/game/BoardSummary";
 import { GroupDisplay } from "@/components/game/GroupDisplay";
+import { LeaderboardLink } from "@/components/game/LeaderboardLink";
+import { ShareButton } from "@/components/game/ShareButton";
 import { useUser } from "@/contexts/UserContext";
 import { api } from "@/convex/_generated/api";
 import { Id } from "@/convex/_generated/dataModel";
-import { formatDate, formatTimestamp, Group } from "@/utils/gameLogic";
+import { useGame } from "@/hooks/useGame";
+import {
+  describeHint,
+  formatDate,
+  formatDuration,
+  formatTimestamp,
+  getModeLabel,
+  getPuzzleTitle,
+  Group,
+} from "@/utils/gameLogic";
 import { useQuery } from "convex/react";
 import { router, useLocalSearchParams } from "expo-router";
 import React from "react";
@@ -30,7 +43,15 @@ export default function GameDetailScreen() {
     boardId ? { boardId: boardId as Id<"boards"> } : "skip"
   );
 
-  if (userLoading || gameResult === undefined || board === undefined) {
+  // Boards from the archive that haven't been played yet can be played here
+  const game = useGame(boardId ? (boardId as Id<"boards">) : null);
+
+  if (
+    userLoading ||
+    gameResult === undefined ||
+    board === undefined ||
+    (!gameResult && game.isLoading)
+  ) {
     return (
       <SafeAreaView style={styles.container}>
         <View style={styles.loadingContainer}>
@@ -54,7 +75,8 @@ export default function GameDetailScreen() {
     );
   }
 
-  const sortedGroups = [...(board.groups as Group[])].sort((a, b) => {
+  // The solution is only revealed once the user has played this board
+  const sortedGroups = [...((gameResult?.board?.groups ?? []) as Group[])].sort((a, b) => {
     const order = { easy: 0, medium: 1, hard: 2, "very-hard": 3 };
     return order[a.difficulty] - order[b.difficulty];
   });
@@ -67,13 +89,13 @@ export default function GameDetailScreen() {
         </Pressable>
 
         <View style={styles.header}>
-          <Text style={styles.title}>Verbindungen</Text>
+          <Text style={styles.title}>{getPuzzleTitle(board.puzzleNumber)}</Text>
           <Text style={styles.date}>
             {board.date ? formatDate(board.date) : "Zufallsspiel"}
           </Text>
         </View>
 
-        {gameResult && (
+        {gameResult ? (
           <View style={styles.resultBanner}>
             <Text
               style={[
@@ -84,21 +106,64 @@ export default function GameDetailScreen() {
               {gameResult.won ? "Gewonnen! 🎉" : "Verloren 😔"}
             </Text>
             <Text style={styles.resultDetails}>
-              {gameResult.attempts} Versuche • Gespielt:{" "}
+              {gameResult.attempts} Versuche •{" "}
+              {gameResult.durationMs !== undefined
+                ? `${formatDuration(gameResult.durationMs)} • `
+                : ""}
+              Gespielt:{" "}
               {formatTimestamp(gameResult.playedAt)}
             </Text>
+            {gameResult.mode && gameResult.mode !== "classic" && (
+              <Text style={styles.resultDetails}>Modus: {getModeLabel(gameResult.mode)}</Text>
+            )}
+            {gameResult.hints && gameResult.hints.length > 0 && (
+              <Text style={styles.resultDetails}>
+                💡 {gameResult.hints.map(describeHint).join(" • ")}
+              </Text>
+            )}
+            <ShareButton
+              attempts={gameResult.selectedGroups}
+              groups={sortedGroups}
+              board={board}
+              hintCount={gameResult.hints?.length ?? 0}
+            />
+            <BoardSummary boardId={board._id} />
+            <LeaderboardLink boardId={board._id} />
+          </View>
+        ) : game.gameState ? (
+          <GameBoard
+            gameState={game.gameState}
+            groups={game.groups}
+            onSelectWord={game.selectWord}
+            onSubmit={game.submitGuess}
+            onDeselectAll={game.deselectAll}
+            onShuffle={game.shuffle}
+            onRequestHint={game.requestHint}
+            onStartGame={game.startGame}
+            elapsedMs={game.elapsedMs}
+            timeLeftMs={game.timeLeftMs}
+            shareBoard={board}
+            boardId={board._id}
+          />
+        ) : (
+          <View style={styles.resultBanner}>
+            <Text style={styles.resultDetails}>
+              Du hast dieses Spiel noch nicht gespielt.
+            </Text>
           </View>
         )}
 
-        <View style={styles.boardContainer}>
-          {sortedGroups.map((group, index) => (
-            <GroupDisplay
-              key={group.name}
-              group={group}
-              animationDelay={index * 100}
-            />
-          ))}
-        </View>
+        {gameResult && (
+          <View style={styles.boardContainer}>
+            {sortedGroups.map((group, index) => (
+              <GroupDisplay
+                key={group.name}
+                group={group}
+                animationDelay={index * 100}
+              />
+            ))}
+          </View>
+        )}
       </ScrollView>
     </SafeAreaView>
   );
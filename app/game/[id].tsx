@@ -1,8 +1,19 @@
+import { BoardSummary } from "@/components/game/BoardSummary";
 import { GroupDisplay } from "@/components/game/GroupDisplay";
+import { LeaderboardLink } from "@/components/game/LeaderboardLink";
+import { ShareButton } from "@/components/game/ShareButton";
 import { useUser } from "@/contexts/UserContext";
 import { api } from "@/convex/_generated/api";
 import { Id } from "@/convex/_generated/dataModel";
-import { formatDate, formatTimestamp, Group } from "@/utils/gameLogic";
+import {
+  describeHint,
+  formatDate,
+  formatDuration,
+  formatTimestamp,
+  getModeLabel,
+  getPuzzleTitle,
+  Group,
+} from "@/utils/gameLogic";
 import { useQuery } from "convex/react";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import React from "react";
@@ -62,7 +73,7 @@ export default function GameDetailScreen() {
           <Pressable style={styles.backLink} onPress={() => router.back()}>
             <Text style={styles.backLinkText}>← Zurück</Text>
           </Pressable>
-          <Text style={styles.title}>Verbindungen</Text>
+          <Text style={styles.title}>{getPuzzleTitle(gameResult.board.puzzleNumber)}</Text>
           <Text style={styles.date}>
             {gameResult.board.date ? formatDate(gameResult.board.date) : "Zufallsspiel"}
           </Text>
@@ -77,7 +88,26 @@ export default function GameDetailScreen() {
           </Text>
           <Text style={styles.resultDetails}>
             {gameResult.attempts} Versuche
+            {gameResult.durationMs !== undefined
+              ? ` • ${formatDuration(gameResult.durationMs)}`
+              : ""}
           </Text>
+          {gameResult.mode && gameResult.mode !== "classic" && (
+            <Text style={styles.resultDetails}>Modus: {getModeLabel(gameResult.mode)}</Text>
+          )}
+          {gameResult.hints && gameResult.hints.length > 0 && (
+            <Text style={styles.resultDetails}>
+              💡 {gameResult.hints.map(describeHint).join(" • ")}
+            </Text>
+          )}
+          <ShareButton
+            attempts={gameResult.selectedGroups}
+            groups={gameResult.board.groups as Group[]}
+            board={gameResult.board}
+            hintCount={gameResult.hints?.length ?? 0}
+          />
+          <BoardSummary boardId={gameResult.board._id} />
+          <LeaderboardLink boardId={gameResult.board._id} />
         </View>
 
         <View style={styles.boardContainer}>
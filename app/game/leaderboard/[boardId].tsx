@@ -0,0 +1,206 @@
+import { useUser } from "@/contexts/UserContext";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { formatDate, formatDuration, getPuzzleTitle } from "@/utils/gameLogic";
+import { useQuery } from "convex/react";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import React from "react";
+import {
+    ActivityIndicator,
+    Pressable,
+    SafeAreaView,
+    ScrollView,
+    StyleSheet,
+    Text,
+    View,
+} from "react-native";
+
+interface LeaderboardEntry {
+  rank: number;
+  durationMs: number;
+  mistakes: number;
+  isCurrentUser: boolean;
+}
+
+function LeaderboardSection({
+  title,
+  entries,
+}: {
+  title: string;
+  entries: LeaderboardEntry[];
+}) {
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>{title}</Text>
+      {entries.length === 0 ? (
+        <Text style={styles.emptyText}>Noch keine Einträge</Text>
+      ) : (
+        entries.map((entry) => (
+          <View
+            key={entry.rank}
+            style={[styles.row, entry.isCurrentUser && styles.rowHighlighted]}
+          >
+            <Text style={styles.rank}>{entry.rank}.</Text>
+            <Text style={styles.player}>{entry.isCurrentUser ? "Du" : "Spieler"}</Text>
+            <Text style={styles.mistakes}>
+              {entry.mistakes} Fehler
+            </Text>
+            <Text style={styles.time}>{formatDuration(entry.durationMs)}</Text>
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
+
+export default function LeaderboardScreen() {
+  const { boardId } = useLocalSearchParams<{ boardId: string }>();
+  const router = useRouter();
+  const { userId } = useUser();
+
+  const board = useQuery(
+    api.boards.getBoard,
+    boardId ? { boardId: boardId as Id<"boards"> } : "skip"
+  );
+  const leaderboard = useQuery(
+    api.leaderboards.getBoardLeaderboard,
+    boardId ? { boardId: boardId as Id<"boards">, userId: userId ?? undefined } : "skip"
+  );
+
+  if (board === undefined || leaderboard === undefined) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#5A594E" />
+          <Text style={styles.loadingText}>Lade Bestenliste...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <View style={styles.header}>
+          <Pressable style={styles.backLink} onPress={() => router.back()}>
+            <Text style={styles.backLinkText}>← Zurück</Text>
+          </Pressable>
+          <Text style={styles.subtitle}>Bestenliste</Text>
+          <Text style={styles.title}>{getPuzzleTitle(board?.puzzleNumber)}</Text>
+          {board && <Text style={styles.date}>{formatDate(board.date)}</Text>}
+          <Text style={styles.note}>
+            {leaderboard.solves} gewertete Lösungen • ohne Hinweise, Pausen und Zen-Modus
+          </Text>
+        </View>
+
+        <LeaderboardSection title="Schnellste fehlerfreie Lösungen" entries={leaderboard.fastest} />
+        <LeaderboardSection title="Wenigste Fehler" entries={leaderboard.fewestMistakes} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#FAF9F6",
+  },
+  scrollContent: {
+    flexGrow: 1,
+    padding: 16,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    gap: 16,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: "#666666",
+  },
+  header: {
+    alignItems: "center",
+    marginBottom: 24,
+  },
+  backLink: {
+    alignSelf: "flex-start",
+    marginBottom: 16,
+  },
+  backLinkText: {
+    fontSize: 16,
+    color: "#5A594E",
+    fontWeight: "600",
+  },
+  subtitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#666666",
+    textTransform: "uppercase",
+    letterSpacing: 1,
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: "800",
+    color: "#1A1A1A",
+    letterSpacing: -1,
+  },
+  date: {
+    fontSize: 14,
+    color: "#666666",
+    marginTop: 4,
+  },
+  note: {
+    fontSize: 12,
+    color: "#999999",
+    marginTop: 8,
+  },
+  section: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#1A1A1A",
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: "#666666",
+  },
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+  },
+  rowHighlighted: {
+    backgroundColor: "#F0EFE6",
+  },
+  rank: {
+    width: 32,
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#1A1A1A",
+  },
+  player: {
+    flex: 1,
+    fontSize: 14,
+    color: "#1A1A1A",
+  },
+  mistakes: {
+    fontSize: 13,
+    color: "#666666",
+    marginRight: 12,
+  },
+  time: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#1A1A1A",
+    fontVariant: ["tabular-nums"],
+  },
+});
@@ -1,7 +1,7 @@
 import { GameBoard } from "@/components/game/GameBoard";
 import { GroupDisplay } from "@/components/game/GroupDisplay";
 import { useGame } from "@/hooks/useGame";
-import { formatDate, Group } from "@/utils/gameLogic";
+import { formatDate } from "@/utils/gameLogic";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import { Id } from "@/convex/_generated/dataModel";
 import React from "react";
@@ -22,11 +22,16 @@ export default function TestPlayScreen() {
   const {
     gameState,
     board,
+    groups,
     isLoading,
     selectWord,
     submitGuess,
     deselectAll,
     shuffle,
+    requestHint,
+    startGame,
+    elapsedMs,
+    timeLeftMs,
   } = useGame(boardId ? (boardId as Id<"boards">) : null, true); // testMode = true
 
   if (isLoading || !board) {
@@ -52,7 +57,7 @@ export default function TestPlayScreen() {
 
   // Game complete - show result
   if (gameState.isComplete) {
-    const sortedGroups = [...(board.groups as Group[])].sort((a, b) => {
+    const sortedGroups = [...groups].sort((a, b) => {
       const order = { easy: 0, medium: 1, hard: 2, "very-hard": 3 };
       return order[a.difficulty] - order[b.difficulty];
     });
@@ -121,11 +126,15 @@ export default function TestPlayScreen() {
 
         <GameBoard
           gameState={gameState}
-          groups={board.groups as Group[]}
+          groups={groups}
           onSelectWord={selectWord}
           onSubmit={submitGuess}
           onDeselectAll={deselectAll}
           onShuffle={shuffle}
+          onRequestHint={requestHint}
+          onStartGame={startGame}
+          elapsedMs={elapsedMs}
+          timeLeftMs={timeLeftMs}
           showRandomLink={false}
         />
       </ScrollView>
@@ -0,0 +1,37 @@
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { useQuery } from "convex/react";
+import React from "react";
+import { StyleSheet, Text } from "react-native";
+
+interface BoardSummaryProps {
+  boardId: string;
+}
+
+// How everyone else did on a board, e.g. "42 % haben gewonnen"
+export function BoardSummary({ boardId }: BoardSummaryProps) {
+  const summary = useQuery(api.boardStats.getBoardSummary, {
+    boardId: boardId as Id<"boards">,
+  });
+
+  if (!summary || summary.plays === 0) {
+    return null;
+  }
+
+  return (
+    <Text style={styles.text}>
+      {summary.winRate} % haben gewonnen • Ø{" "}
+      {summary.averageMistakes.toLocaleString("de-DE")} Fehler • {summary.plays}{" "}
+      {summary.plays === 1 ? "Spiel" : "Spiele"}
+    </Text>
+  );
+}
+
+const styles = StyleSheet.create({
+  text: {
+    fontSize: 14,
+    color: "#666666",
+    textAlign: "center",
+    marginTop: 8,
+  },
+});
@@ -1,4 +1,16 @@
-import { GameState, Group, MAX_MISTAKES, WORDS_PER_GROUP } from "@/utils/gameLogic";
+import {
+  formatDuration,
+  GAME_MODES,
+  GameMode,
+  GameState,
+  getModeLabel,
+  Group,
+  GuessOutcome,
+  HintRefusal,
+  HintType,
+  UsedHint,
+  WORDS_PER_GROUP,
+} from "@/utils/gameLogic";
 import * as Haptics from "expo-haptics";
 import { Link } from "expo-router";
 import React, { useState } from "react";
@@ -10,17 +22,34 @@ import {
     Text,
     View,
 } from "react-native";
+import { BoardSummary } from "./BoardSummary";
 import { GroupDisplay } from "./GroupDisplay";
+import { HintPanel } from "./HintPanel";
+import { LeaderboardLink } from "./LeaderboardLink";
+import { ModePicker } from "./ModePicker";
+import { ShareButton } from "./ShareButton";
 import { WordTile } from "./WordTile";
 
 interface GameBoardProps {
   gameState: GameState;
   groups: Group[];
   onSelectWord: (word: string) => void;
-  onSubmit: () => { success: boolean; isClose: boolean };
+  onSubmit: () => Promise<GuessOutcome>;
   onDeselectAll: () => void;
   onShuffle: () => void;
+  // Hints are hidden without a handler
+  onRequestHint?: (
+    type: HintType
+  ) => Promise<{ ok: true; hint: UsedHint } | { ok: false; reason: HintRefusal }>;
+  // Without it the game starts right away in its current mode
+  onStartGame?: (mode: GameMode) => Promise<void>;
+  elapsedMs?: number | null;
+  timeLeftMs?: number | null;
+  // Links the result to the board's leaderboard
+  boardId?: string;
   showRandomLink?: boolean;
+  // Date and number for the shared result; sharing is hidden without it
+  shareBoard?: { date?: string; puzzleNumber?: number };
 }
 
 export function GameBoard({
@@ -30,12 +59,19 @@ export function GameBoard({
   onSubmit,
   onDeselectAll,
   onShuffle,
+  onRequestHint,
+  onStartGame,
+  elapsedMs = null,
+  timeLeftMs = null,
+  boardId,
   showRandomLink = true,
+  shareBoard,
 }: GameBoardProps) {
   const [feedback, setFeedback] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const shakeAnim = React.useRef(new Animated.Value(0)).current;
 
-  const canSubmit = gameState.selectedWords.length === WORDS_PER_GROUP;
+  const canSubmit = gameState.selectedWords.length === WORDS_PER_GROUP && !isSubmitting;
   const canDeselect = gameState.selectedWords.length > 0;
 
   const triggerShake = () => {
@@ -47,20 +83,42 @@ export function GameBoard({
     ]).start();
   };
 
-  const handleSubmit = () => {
-    const result = onSubmit();
-    
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    let outcome: GuessOutcome;
+    try {
+      outcome = await onSubmit();
+    } catch (error) {
+      console.error("Failed to submit guess:", error);
+      setFeedback("Verbindungsfehler. Bitte erneut versuchen.");
+      setTimeout(() => setFeedback(null), 2000);
+      return;
+    } finally {
+      setIsSubmitting(false);
+    }
+
+
+    if (outcome === "incomplete") return;
+
+    if (outcome === "repeated") {
+      setFeedback("Bereits versucht");
+      setTimeout(() => setFeedback(null), 2000);
+      return;
+    }
+
+    if (outcome === "time-up") return;
+
     if (Platform.OS !== "web") {
-      if (result.success) {
+      if (outcome === "correct") {
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       } else {
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       }
     }
 
-    if (!result.success) {
+    if (outcome !== "correct") {
       triggerShake();
-      if (result.isClose) {
+      if (outcome === "one-away") {
         setFeedback("Fast! Ein Wort ist falsch.");
       } else {
         setFeedback("Leider falsch.");
@@ -75,9 +133,11 @@ export function GameBoard({
     return order[a.difficulty] - order[b.difficulty];
   });
 
-  // Lives display
+  // Lives display, none in modes without a mistake limit
+  const { maxMistakes } = GAME_MODES[gameState.mode];
+  const mistakes = gameState.attempts.filter((a) => !a.correct).length;
   const lives = [];
-  for (let i = 0; i < MAX_MISTAKES; i++) {
+  for (let i = 0; i < (maxMistakes ?? 0); i++) {
     lives.push(
       <View
         key={i}
@@ -107,8 +167,36 @@ export function GameBoard({
             {gameState.won ? "Gewonnen! 🎉" : "Verloren 😔"}
           </Text>
           <Text style={styles.attemptsText}>
-            {gameState.attempts.length} Versuche • {MAX_MISTAKES - gameState.mistakesRemaining} Fehler
+            {gameState.attempts.length} Versuche • {mistakes} Fehler
           </Text>
+          {gameState.won && gameState.groupSolveTimes.length > 0 && (
+            <Text style={styles.attemptsText}>
+              Zeit: {formatDuration(gameState.groupSolveTimes[gameState.groupSolveTimes.length - 1])}
+            </Text>
+          )}
+          {gameState.mode !== "classic" && (
+            <Text style={styles.attemptsText}>Modus: {getModeLabel(gameState.mode)}</Text>
+          )}
+          {gameState.hints.length > 0 && (
+            <Text style={styles.attemptsText}>
+              {gameState.hints.length} {gameState.hints.length === 1 ? "Hinweis" : "Hinweise"}{" "}
+              genutzt
+            </Text>
+          )}
+          {shareBoard && (
+            <ShareButton
+              attempts={gameState.attempts}
+              groups={groups}
+              board={shareBoard}
+              hintCount={gameState.hints.length}
+            />
+          )}
+          {boardId && (
+            <>
+              <BoardSummary boardId={boardId} />
+              <LeaderboardLink boardId={boardId} />
+            </>
+          )}
           {showRandomLink && (
             <Link href="/random" asChild>
               <Pressable style={styles.randomButton}>
@@ -121,6 +209,14 @@ export function GameBoard({
     );
   }
 
+  if (onStartGame && gameState.startedAt === undefined) {
+    return (
+      <View style={styles.container}>
+        <ModePicker onStart={onStartGame} />
+      </View>
+    );
+  }
+
   return (
     <View style={styles.container}>
       {/* Solved groups */}
@@ -153,10 +249,23 @@ export function GameBoard({
         </View>
       )}
 
-      {/* Lives */}
+      {/* Lives and timer */}
       <View style={styles.livesContainer}>
-        <Text style={styles.livesLabel}>Versuche übrig:</Text>
-        <View style={styles.livesRow}>{lives}</View>
+        {maxMistakes === null ? (
+          <Text style={styles.livesLabel}>Zen-Modus: unbegrenzte Versuche</Text>
+        ) : (
+          <>
+            <Text style={styles.livesLabel}>Versuche übrig:</Text>
+            <View style={styles.livesRow}>{lives}</View>
+          </>
+        )}
+        {timeLeftMs !== null ? (
+          <Text style={[styles.timerText, timeLeftMs < 30000 && styles.timerTextUrgent]}>
+            ⏱ {formatDuration(timeLeftMs)}
+          </Text>
+        ) : (
+          elapsedMs !== null && <Text style={styles.timerText}>⏱ {formatDuration(elapsedMs)}</Text>
+        )}
       </View>
 
       {/* Buttons */}
@@ -196,6 +305,14 @@ export function GameBoard({
           </Text>
         </Pressable>
       </View>
+
+      {onRequestHint && (
+        <HintPanel
+          hints={gameState.hints}
+          selectedCount={gameState.selectedWords.length}
+          onRequestHint={onRequestHint}
+        />
+      )}
     </View>
   );
 }
@@ -239,6 +356,16 @@ const styles = StyleSheet.create({
   lifeInactive: {
     backgroundColor: "#D1D1D1",
   },
+  timerText: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#1A1A1A",
+    marginLeft: 8,
+    fontVariant: ["tabular-nums"],
+  },
+  timerTextUrgent: {
+    color: "#C53030",
+  },
   feedbackContainer: {
     backgroundColor: "#FFF3CD",
     padding: 12,
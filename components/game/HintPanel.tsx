@@ -0,0 +1,122 @@
+import React, { useState } from "react";
+import { Pressable, StyleSheet, Text, View } from "react-native";
+import {
+  describeHint,
+  getHintLabel,
+  getHintRefusalMessage,
+  HINT_CONFIG,
+  HintRefusal,
+  HintType,
+  UsedHint,
+} from "@/utils/gameLogic";
+
+const HINT_TYPES: HintType[] = ["reveal-word", "reveal-category", "check-pair"];
+
+interface HintPanelProps {
+  hints: UsedHint[];
+  selectedCount: number;
+  onRequestHint: (
+    type: HintType
+  ) => Promise<{ ok: true; hint: UsedHint } | { ok: false; reason: HintRefusal }>;
+}
+
+export function HintPanel({ hints, selectedCount, onRequestHint }: HintPanelProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [isRequesting, setIsRequesting] = useState(false);
+
+  const handleHint = async (type: HintType) => {
+    setIsRequesting(true);
+    setError(null);
+    try {
+      const result = await onRequestHint(type);
+      if (!result.ok) {
+        setError(getHintRefusalMessage(result.reason));
+      }
+    } catch (err) {
+      console.error("Failed to request hint:", err);
+      setError("Verbindungsfehler. Bitte erneut versuchen.");
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.buttonRow}>
+        {HINT_TYPES.map((type) => {
+          const { lifeCost, maxPerGame } = HINT_CONFIG[type];
+          const usesLeft = maxPerGame - hints.filter((h) => h.type === type).length;
+          const disabled =
+            isRequesting || usesLeft <= 0 || (type === "check-pair" && selectedCount !== 2);
+
+          return (
+            <Pressable
+              key={type}
+              style={[styles.hintButton, disabled && styles.hintButtonDisabled]}
+              onPress={() => handleHint(type)}
+              disabled={disabled}
+            >
+              <Text style={styles.hintButtonText}>💡 {getHintLabel(type)}</Text>
+              <Text style={styles.hintCost}>
+                {lifeCost > 0 ? `−${lifeCost} Leben · ` : ""}
+                noch {usesLeft}×
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      {hints.map((hint, index) => (
+        <Text key={index} style={styles.hintText}>
+          💡 {describeHint(hint)}
+        </Text>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+    gap: 8,
+  },
+  buttonRow: {
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: 8,
+    flexWrap: "wrap",
+  },
+  hintButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#5A594E",
+    alignItems: "center",
+  },
+  hintButtonDisabled: {
+    opacity: 0.4,
+  },
+  hintButtonText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#5A594E",
+  },
+  hintCost: {
+    fontSize: 11,
+    color: "#666666",
+    marginTop: 2,
+  },
+  errorText: {
+    fontSize: 13,
+    color: "#C53030",
+    textAlign: "center",
+  },
+  hintText: {
+    fontSize: 14,
+    color: "#1A1A1A",
+    textAlign: "center",
+  },
+});
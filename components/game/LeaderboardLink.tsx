@@ -0,0 +1,34 @@
+import { Link } from "expo-router";
+import React from "react";
+import { Pressable, StyleSheet, Text } from "react-native";
+
+interface LeaderboardLinkProps {
+  boardId: string;
+}
+
+export function LeaderboardLink({ boardId }: LeaderboardLinkProps) {
+  return (
+    <Link href={`/game/leaderboard/${boardId}`} asChild>
+      <Pressable style={styles.button}>
+        <Text style={styles.buttonText}>🏆 Bestenliste</Text>
+      </Pressable>
+    </Link>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 24,
+    borderWidth: 1,
+    borderColor: "#5A594E",
+    marginTop: 12,
+    alignItems: "center",
+  },
+  buttonText: {
+    color: "#5A594E",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
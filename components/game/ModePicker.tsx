@@ -0,0 +1,127 @@
+import React, { useState } from "react";
+import { ActivityIndicator, Pressable, StyleSheet, Text, View } from "react-native";
+import { GameMode, getModeDescription, getModeLabel } from "@/utils/gameLogic";
+
+const MODES: GameMode[] = ["classic", "zen", "hard", "timed"];
+
+interface ModePickerProps {
+  onStart: (mode: GameMode) => Promise<void>;
+}
+
+// Shown before a game starts; the server only sends the words once the clock runs
+export function ModePicker({ onStart }: ModePickerProps) {
+  const [mode, setMode] = useState<GameMode>("classic");
+  const [isStarting, setIsStarting] = useState(false);
+  const [feedback, setFeedback] = useState<string | null>(null);
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    try {
+      await onStart(mode);
+    } catch (error) {
+      console.error("Failed to start game:", error);
+      setFeedback("Spiel konnte nicht gestartet werden. Bitte erneut versuchen.");
+      setTimeout(() => setFeedback(null), 2000);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        {MODES.map((option) => (
+          <Pressable
+            key={option}
+            style={[styles.chip, option === mode && styles.chipActive]}
+            onPress={() => setMode(option)}
+          >
+            <Text style={[styles.chipText, option === mode && styles.chipTextActive]}>
+              {getModeLabel(option)}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+      <Text style={styles.description}>{getModeDescription(mode)}</Text>
+      <Pressable
+        style={[styles.startButton, isStarting && styles.startButtonDisabled]}
+        onPress={handleStart}
+        disabled={isStarting}
+      >
+        {isStarting ? (
+          <ActivityIndicator color="#FFFFFF" />
+        ) : (
+          <Text style={styles.startButtonText}>Spiel starten</Text>
+        )}
+      </Pressable>
+      {feedback && (
+        <View style={styles.feedbackContainer}>
+          <Text style={styles.feedbackText}>{feedback}</Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: "center",
+    marginVertical: 24,
+    gap: 8,
+  },
+  row: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: "#5A594E",
+  },
+  chipActive: {
+    backgroundColor: "#5A594E",
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#5A594E",
+  },
+  chipTextActive: {
+    color: "#FFFFFF",
+  },
+  description: {
+    fontSize: 13,
+    color: "#666666",
+  },
+  startButton: {
+    backgroundColor: "#5A594E",
+    paddingVertical: 14,
+    paddingHorizontal: 32,
+    borderRadius: 24,
+    marginTop: 8,
+  },
+  startButtonDisabled: {
+    opacity: 0.7,
+  },
+  startButtonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  feedbackContainer: {
+    backgroundColor: "#FFF3CD",
+    padding: 12,
+    borderRadius: 8,
+    marginVertical: 8,
+  },
+  feedbackText: {
+    textAlign: "center",
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#856404",
+  },
+});
@@ -0,0 +1,51 @@
+import React, { useState } from "react";
+import { Pressable, StyleSheet, Text } from "react-native";
+import { buildShareText, Group } from "@/utils/gameLogic";
+import { shareText } from "@/utils/share";
+
+interface ShareButtonProps {
+  attempts: { words: string[] }[];
+  groups: Group[];
+  board: { date?: string; puzzleNumber?: number };
+  hintCount?: number;
+}
+
+export function ShareButton({ attempts, groups, board, hintCount = 0 }: ShareButtonProps) {
+  const [feedback, setFeedback] = useState<string | null>(null);
+
+  const handleShare = async () => {
+    try {
+      const result = await shareText(buildShareText(attempts, groups, board, hintCount));
+      if (result === "copied") {
+        setFeedback("In die Zwischenablage kopiert!");
+        setTimeout(() => setFeedback(null), 2000);
+      }
+    } catch (error) {
+      console.error("Failed to share result:", error);
+      setFeedback("Teilen fehlgeschlagen");
+      setTimeout(() => setFeedback(null), 2000);
+    }
+  };
+
+  return (
+    <Pressable style={styles.button} onPress={handleShare}>
+      <Text style={styles.buttonText}>{feedback ?? "Ergebnis teilen"}</Text>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    backgroundColor: "#1A1A1A",
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 24,
+    marginTop: 16,
+    alignItems: "center",
+  },
+  buttonText: {
+    color: "#FFFFFF",
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
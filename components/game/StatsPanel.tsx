@@ -0,0 +1,177 @@
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+import { Difficulty, getDifficultyColor, getDifficultyLabel } from "@/utils/gameLogic";
+
+const DIFFICULTIES: Difficulty[] = ["easy", "medium", "hard", "very-hard"];
+
+export interface UserStats {
+  gamesPlayed: number;
+  gamesWon: number;
+  winRate: number;
+  currentStreak: number;
+  maxStreak: number;
+  mistakeDistribution: number[];
+  solveRates: Record<Difficulty, number>;
+  averageAttempts: number;
+}
+
+interface StatsPanelProps {
+  stats: UserStats;
+}
+
+export function StatsPanel({ stats }: StatsPanelProps) {
+  const maxCount = Math.max(1, ...stats.mistakeDistribution);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.summaryRow}>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{stats.gamesPlayed}</Text>
+          <Text style={styles.summaryLabel}>Gespielt</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{stats.winRate}%</Text>
+          <Text style={styles.summaryLabel}>Siegquote</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{stats.currentStreak}</Text>
+          <Text style={styles.summaryLabel}>Serie</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{stats.maxStreak}</Text>
+          <Text style={styles.summaryLabel}>Rekord</Text>
+        </View>
+      </View>
+
+      <Text style={styles.sectionTitle}>Fehlerverteilung</Text>
+      {stats.mistakeDistribution.map((count, mistakes) => (
+        <View key={mistakes} style={styles.barRow}>
+          <Text style={styles.barLabel}>{mistakes}</Text>
+          <View style={styles.barTrack}>
+            <View
+              style={[
+                styles.bar,
+                mistakes === stats.mistakeDistribution.length - 1 && styles.barLost,
+                { width: `${Math.max((count / maxCount) * 100, 8)}%` },
+              ]}
+            >
+              <Text style={styles.barValue}>{count}</Text>
+            </View>
+          </View>
+        </View>
+      ))}
+
+      <Text style={styles.sectionTitle}>Gefundene Gruppen</Text>
+      {DIFFICULTIES.map((difficulty) => (
+        <View key={difficulty} style={styles.rateRow}>
+          <View
+            style={[styles.rateSwatch, { backgroundColor: getDifficultyColor(difficulty) }]}
+          />
+          <Text style={styles.rateLabel}>{getDifficultyLabel(difficulty)}</Text>
+          <Text style={styles.rateValue}>{stats.solveRates[difficulty]}%</Text>
+        </View>
+      ))}
+
+      <Text style={styles.footer}>
+        Durchschnittlich {stats.averageAttempts.toLocaleString("de-DE")} Versuche pro Spiel
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#FFFFFF",
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 24,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  summaryRow: {
+    flexDirection: "row",
+    marginBottom: 8,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: "center",
+  },
+  summaryValue: {
+    fontSize: 28,
+    fontWeight: "800",
+    color: "#1A1A1A",
+  },
+  summaryLabel: {
+    fontSize: 11,
+    color: "#666666",
+    marginTop: 4,
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#1A1A1A",
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  barRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 4,
+  },
+  barLabel: {
+    width: 16,
+    fontSize: 13,
+    fontWeight: "600",
+    color: "#1A1A1A",
+  },
+  barTrack: {
+    flex: 1,
+  },
+  bar: {
+    backgroundColor: "#5A594E",
+    borderRadius: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    alignItems: "flex-end",
+  },
+  barLost: {
+    backgroundColor: "#C53030",
+  },
+  barValue: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#FFFFFF",
+  },
+  rateRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 4,
+  },
+  rateSwatch: {
+    width: 14,
+    height: 14,
+    borderRadius: 4,
+    marginRight: 8,
+  },
+  rateLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: "#1A1A1A",
+  },
+  rateValue: {
+    fontSize: 14,
+    fontWeight: "700",
+    color: "#1A1A1A",
+  },
+  footer: {
+    fontSize: 13,
+    color: "#666666",
+    marginTop: 16,
+    textAlign: "center",
+  },
+});
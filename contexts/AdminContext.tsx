@@ -1,17 +1,19 @@
-import React, { createContext, useContext, useEffect, useState } from "react";
+import React, { createContext, useCallback, useContext, useEffect, useState } from "react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import { useMutation, useQuery } from "convex/react";
+import { useAction, useMutation, useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
 
 const ADMIN_SESSION_KEY = "verbindungen_admin_session";
 
 interface AdminSession {
+  token: string;
   email: string;
 }
 
 interface AdminContextType {
   isAdmin: boolean;
   adminEmail: string | null;
+  adminToken: string | null;
   isLoading: boolean;
   login: (email: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
@@ -23,12 +25,13 @@ export function AdminProvider({ children }: { children: React.ReactNode }) {
   const [session, setSession] = useState<AdminSession | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
-  const adminLoginMutation = useMutation(api.auth.adminLogin);
+  const adminLoginAction = useAction(api.auth.adminLogin);
+  const adminLogoutMutation = useMutation(api.auth.adminLogout);
 
-  // Verify the admin still exists
+  // Verify the session token is still valid
   const adminVerification = useQuery(
     api.auth.verifyAdmin,
-    session ? { email: session.email } : "skip"
+    session ? { adminToken: session.token } : "skip"
   );
 
   // Load session from storage on mount
@@ -37,7 +40,13 @@ export function AdminProvider({ children }: { children: React.ReactNode }) {
       try {
         const storedSession = await AsyncStorage.getItem(ADMIN_SESSION_KEY);
         if (storedSession) {
-          setSession(JSON.parse(storedSession));
+          const parsed = JSON.parse(storedSession);
+          // Sessions from before tokens existed only stored the email
+          if (parsed.token) {
+            setSession(parsed);
+          } else {
+            await AsyncStorage.removeItem(ADMIN_SESSION_KEY);
+          }
         }
       } catch (error) {
         console.error("Failed to load admin session:", error);
@@ -49,32 +58,44 @@ export function AdminProvider({ children }: { children: React.ReactNode }) {
     loadSession();
   }, []);
 
-  // If admin is no longer valid, clear session
+  const clearSession = useCallback(async () => {
+    await AsyncStorage.removeItem(ADMIN_SESSION_KEY);
+    setSession(null);
+  }, []);
+
+  // If the session expired or was revoked, clear it
   useEffect(() => {
     if (session && adminVerification === null) {
-      logout();
+      clearSession();
     }
-  }, [adminVerification, session]);
+  }, [adminVerification, session, clearSession]);
 
   const login = async (email: string, password: string) => {
-    const result = await adminLoginMutation({ email, password });
-    const newSession = { email: result.email };
+    const result = await adminLoginAction({ email, password });
+    const newSession = { token: result.token, email: result.email };
     await AsyncStorage.setItem(ADMIN_SESSION_KEY, JSON.stringify(newSession));
     setSession(newSession);
   };
 
   const logout = async () => {
-    await AsyncStorage.removeItem(ADMIN_SESSION_KEY);
-    setSession(null);
+    if (session) {
+      try {
+        await adminLogoutMutation({ adminToken: session.token });
+      } catch (error) {
+        console.error("Failed to revoke admin session:", error);
+      }
+    }
+    await clearSession();
   };
 
-  const isAdmin = session !== null && adminVerification !== null;
+  const isAdmin = session !== null && !!adminVerification;
 
   return (
     <AdminContext.Provider
       value={{
         isAdmin,
-        adminEmail: session?.email ?? null,
+        adminEmail: adminVerification?.email ?? session?.email ?? null,
+        adminToken: isAdmin ? session.token : null,
         isLoading: isLoading || (session !== null && adminVerification === undefined),
         login,
         logout,
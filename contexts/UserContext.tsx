@@ -1,4 +1,5 @@
-import React, { createContext, useContext, useEffect, useState, useRef } from "react";
+import React, { createContext, useCallback, useContext, useEffect, useState, useRef } from "react";
+import { Platform } from "react-native";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useMutation, useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
@@ -8,17 +9,54 @@ const AUTH_TOKEN_KEY = "verbindungen_auth_token";
 
 interface User {
   _id: Id<"users">;
-  authToken: string;
   email?: string;
   createdAt: number;
 }
 
+// What was carried over when an anonymous account was merged on login
+export interface MergeResult {
+  movedGames: number;
+  duplicateBoards: number;
+}
+
 interface UserContextType {
   user: User | null;
   userId: Id<"users"> | null;
+  authToken: string | null;
   isLoading: boolean;
-  linkEmail: (email: string) => Promise<void>;
-  loginWithEmail: (email: string) => Promise<void>;
+  requestLoginCode: (email: string) => Promise<void>;
+  confirmLoginCode: (email: string, code: string) => Promise<MergeResult | null>;
+  signOut: () => Promise<void>;
+  signOutEverywhere: () => Promise<void>;
+}
+
+// Human-readable name for this device, shown in the account's device list
+function getDeviceLabel(): string {
+  if (Platform.OS === "ios") return "iPhone / iPad";
+  if (Platform.OS === "android") return "Android";
+
+  const userAgent = typeof navigator !== "undefined" ? navigator.userAgent : "";
+  const browser = /Edg\//.test(userAgent)
+    ? "Edge"
+    : /Firefox\//.test(userAgent)
+      ? "Firefox"
+      : /Chrome\//.test(userAgent)
+        ? "Chrome"
+        : /Safari\//.test(userAgent)
+          ? "Safari"
+          : "Browser";
+  const system = /Windows/.test(userAgent)
+    ? "Windows"
+    : /iPhone|iPad/.test(userAgent)
+      ? "iOS"
+      : /Mac OS X/.test(userAgent)
+        ? "macOS"
+        : /Android/.test(userAgent)
+          ? "Android"
+          : /Linux/.test(userAgent)
+            ? "Linux"
+            : null;
+  return system ? `${browser} auf ${system}` : browser;
 }
 
 const UserContext = createContext<UserContextType | undefined>(undefined);
@@ -27,10 +65,16 @@ export function UserProvider({ children }: { children: React.ReactNode }) {
   const [authToken, setAuthToken] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const initialized = useRef(false);
+  // Set while this device changes accounts, when the old user briefly disappears
+  const switchingAccount = useRef(false);
 
   const createAnonymousUser = useMutation(api.auth.createAnonymousUser);
-  const linkEmailMutation = useMutation(api.auth.linkEmail);
-  const loginWithEmailMutation = useMutation(api.auth.loginWithEmail);
+  const touchSession = useMutation(api.auth.touchSession);
+  const signOutMutation = useMutation(api.auth.signOut);
+  const signOutEverywhereMutation = useMutation(api.auth.signOutEverywhere);
+  const requestLoginCodeMutation = useMutation(api.auth.requestLoginCode);
+  const verifyLoginCodeMutation = useMutation(api.auth.verifyLoginCode);
+  const mergeAnonymousAccountMutation = useMutation(api.accounts.mergeAnonymousAccount);
 
   // Query user with the current auth token
   const user = useQuery(
@@ -38,6 +82,13 @@ export function UserProvider({ children }: { children: React.ReactNode }) {
     authToken ? { authToken } : "skip"
   );
 
+  // Start over as a new anonymous user on this device
+  const startAnonymousSession = useCallback(async () => {
+    const result = await createAnonymousUser({ deviceLabel: getDeviceLabel() });
+    await AsyncStorage.setItem(AUTH_TOKEN_KEY, result.authToken);
+    setAuthToken(result.authToken);
+  }, [createAnonymousUser]);
+
   // Load auth token from storage on mount
   useEffect(() => {
     if (initialized.current) return;
@@ -47,35 +98,99 @@ export function UserProvider({ children }: { children: React.ReactNode }) {
       try {
         const storedToken = await AsyncStorage.getItem(AUTH_TOKEN_KEY);
         if (storedToken) {
-          setAuthToken(storedToken);
-          setIsLoading(false);
+          // Mark the device as active; old tokens are swapped for a fresh one
+          const session = await touchSession({ authToken: storedToken });
+          if (!session.valid) {
+            await startAnonymousSession();
+          } else if (session.authToken) {
+            await AsyncStorage.setItem(AUTH_TOKEN_KEY, session.authToken);
+            setAuthToken(session.authToken);
+          } else {
+            setAuthToken(storedToken);
+          }
         } else {
-          // Create anonymous user
-          const result = await createAnonymousUser();
-          await AsyncStorage.setItem(AUTH_TOKEN_KEY, result.authToken);
-          setAuthToken(result.authToken);
-          setIsLoading(false);
+          await startAnonymousSession();
         }
       } catch (error) {
         console.error("Failed to load auth token:", error);
+      } finally {
         setIsLoading(false);
       }
     }
 
     loadAuthToken();
-  }, [createAnonymousUser]);
+  }, [touchSession, startAnonymousSession]);
 
-  const linkEmail = async (email: string) => {
-    if (!authToken) {
-      throw new Error("Not authenticated");
+  // This device was signed out from elsewhere
+  useEffect(() => {
+    if (!isLoading && authToken && user === null && !switchingAccount.current) {
+      startAnonymousSession().catch((error) => {
+        console.error("Failed to create anonymous user:", error);
+      });
     }
-    await linkEmailMutation({ authToken, email });
+  }, [isLoading, authToken, user, startAnonymousSession]);
+
+  // Step 1 of the email login: send a one-time code to the address
+  const requestLoginCode = async (email: string) => {
+    await requestLoginCodeMutation({ email });
   };
 
-  const loginWithEmail = async (email: string) => {
-    const result = await loginWithEmailMutation({ email });
-    await AsyncStorage.setItem(AUTH_TOKEN_KEY, result.authToken);
-    setAuthToken(result.authToken);
+  // Step 2 of the email login: confirm the code and switch to that account.
+  // If an anonymous player logs into an existing account, their history is
+  // merged into it.
+  const confirmLoginCode = async (email: string, code: string) => {
+    const result = await verifyLoginCodeMutation({
+      email,
+      code,
+      authToken: authToken ?? undefined,
+      deviceLabel: getDeviceLabel(),
+    });
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+
+    let mergeResult: MergeResult | null = null;
+    switchingAccount.current = true;
+    try {
+      if (authToken && result.authToken !== authToken && user && !user.email) {
+        mergeResult = await mergeAnonymousAccountMutation({
+          anonymousToken: authToken,
+          authToken: result.authToken,
+        });
+      }
+
+      await AsyncStorage.setItem(AUTH_TOKEN_KEY, result.authToken);
+      setAuthToken(result.authToken);
+    } finally {
+      switchingAccount.current = false;
+    }
+    return mergeResult;
+  };
+
+  // Sign out this device and continue anonymously
+  const signOut = async () => {
+    switchingAccount.current = true;
+    try {
+      if (authToken) {
+        await signOutMutation({ authToken });
+      }
+      await startAnonymousSession();
+    } finally {
+      switchingAccount.current = false;
+    }
+  };
+
+  // Sign out all devices of the account, including this one
+  const signOutEverywhere = async () => {
+    switchingAccount.current = true;
+    try {
+      if (authToken) {
+        await signOutEverywhereMutation({ authToken });
+      }
+      await startAnonymousSession();
+    } finally {
+      switchingAccount.current = false;
+    }
   };
 
   return (
@@ -83,9 +198,12 @@ export function UserProvider({ children }: { children: React.ReactNode }) {
       value={{
         user: user ?? null,
         userId: user?._id ?? null,
+        authToken,
         isLoading: isLoading || (authToken !== null && user === undefined),
-        linkEmail,
-        loginWithEmail,
+        requestLoginCode,
+        confirmLoginCode,
+        signOut,
+        signOutEverywhere,
       }}
     >
       {children}
@@ -8,9 +8,22 @@
  * @module
  */
 
+import type * as accounts from "../accounts.js";
 import type * as auth from "../auth.js";
+import type * as boardStats from "../boardStats.js";
+import type * as boardTransfer from "../boardTransfer.js";
 import type * as boards from "../boards.js";
+import type * as calibration from "../calibration.js";
+import type * as crons from "../crons.js";
 import type * as gameHistory from "../gameHistory.js";
+import type * as games from "../games.js";
+import type * as leaderboards from "../leaderboards.js";
+import type * as mailer from "../mailer.js";
+import type * as passwords from "../passwords.js";
+import type * as revisions from "../revisions.js";
+import type * as schedule from "../schedule.js";
+import type * as stats from "../stats.js";
+import type * as tokens from "../tokens.js";
 
 import type {
   ApiFromModules,
@@ -19,9 +32,22 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  accounts: typeof accounts;
   auth: typeof auth;
+  boardStats: typeof boardStats;
+  boardTransfer: typeof boardTransfer;
   boards: typeof boards;
+  calibration: typeof calibration;
+  crons: typeof crons;
   gameHistory: typeof gameHistory;
+  games: typeof games;
+  leaderboards: typeof leaderboards;
+  mailer: typeof mailer;
+  passwords: typeof passwords;
+  revisions: typeof revisions;
+  schedule: typeof schedule;
+  stats: typeof stats;
+  tokens: typeof tokens;
 }>;
 
 /**
@@ -0,0 +1,96 @@
+import { v } from "convex/values";
+import { mutation } from "./_generated/server";
+import { requireUser } from "./auth";
+import { rebuildUserStats } from "./stats";
+
+// Merge an anonymous account into an email account after logging in. Both
+// auth tokens are required, so only someone holding both accounts can merge.
+export const mergeAnonymousAccount = mutation({
+  args: { anonymousToken: v.string(), authToken: v.string() },
+  handler: async (ctx, args) => {
+    const anonymousUser = await requireUser(ctx, args.anonymousToken);
+    const targetUser = await requireUser(ctx, args.authToken);
+
+    if (anonymousUser._id === targetUser._id) {
+      return { movedGames: 0, duplicateBoards: 0 };
+    }
+
+    if (anonymousUser.email) {
+      throw new Error("Only anonymous accounts can be merged");
+    }
+
+    const anonymousHistory = await ctx.db
+      .query("gameHistory")
+      .withIndex("by_user", (q) => q.eq("userId", anonymousUser._id))
+      .collect();
+    const targetHistory = await ctx.db
+      .query("gameHistory")
+      .withIndex("by_user", (q) => q.eq("userId", targetUser._id))
+      .collect();
+    const targetByBoard = new Map(targetHistory.map((game) => [game.boardId, game]));
+
+    let movedGames = 0;
+    let duplicateBoards = 0;
+
+    for (const game of anonymousHistory) {
+      const existing = targetByBoard.get(game.boardId);
+
+      if (existing) {
+        // Played on both accounts: keep whichever was played first
+        duplicateBoards++;
+        if (game.playedAt < existing.playedAt) {
+          await ctx.db.delete(existing._id);
+          await ctx.db.patch(game._id, { userId: targetUser._id });
+        } else {
+          await ctx.db.delete(game._id);
+        }
+        continue;
+      }
+
+      await ctx.db.patch(game._id, { userId: targetUser._id });
+      movedGames++;
+    }
+
+    // Carry over unfinished games for boards the email account hasn't touched
+    const anonymousGames = await ctx.db
+      .query("games")
+      .withIndex("by_user_and_board", (q) => q.eq("userId", anonymousUser._id))
+      .collect();
+
+    for (const game of anonymousGames) {
+      const targetGame = await ctx.db
+        .query("games")
+        .withIndex("by_user_and_board", (q) =>
+          q.eq("userId", targetUser._id).eq("boardId", game.boardId)
+        )
+        .first();
+
+      if (targetGame || targetByBoard.has(game.boardId)) {
+        await ctx.db.delete(game._id);
+      } else {
+        await ctx.db.patch(game._id, { userId: targetUser._id });
+      }
+    }
+
+    const anonymousSessions = await ctx.db
+      .query("userSessions")
+      .withIndex("by_user", (q) => q.eq("userId", anonymousUser._id))
+      .collect();
+    for (const session of anonymousSessions) {
+      await ctx.db.delete(session._id);
+    }
+
+    const anonymousStats = await ctx.db
+      .query("userStats")
+      .withIndex("by_user", (q) => q.eq("userId", anonymousUser._id))
+      .first();
+    if (anonymousStats) {
+      await ctx.db.delete(anonymousStats._id);
+    }
+    await rebuildUserStats(ctx, targetUser._id);
+
+    await ctx.db.delete(anonymousUser._id);
+
+    return { movedGames, duplicateBoards };
+  },
+});
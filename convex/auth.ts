@@ -1,161 +1,610 @@
-import { mutation, query } from "./_generated/server";
+import {
+  action,
+  internalMutation,
+  internalQuery,
+  mutation,
+  MutationCtx,
+  query,
+  QueryCtx,
+} from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
 import { v } from "convex/values";
+import { hashPassword, needsRehash, verifyPassword } from "./passwords";
+import { generateToken, hashToken } from "./tokens";
 
-// Generate a random auth token
-function generateToken(): string {
-  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
-  let result = "";
-  for (let i = 0; i < 64; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length));
+// How often a device's token is replaced with a fresh one
+const TOKEN_ROTATION_MS = 30 * 24 * 60 * 60 * 1000;
+// How often lastSeenAt is written, to avoid a write on every app start
+const LAST_SEEN_INTERVAL_MS = 60 * 60 * 1000;
+
+// Look up the device session for an auth token
+async function getSession(ctx: QueryCtx, authToken: string) {
+  const tokenHash = await hashToken(authToken);
+  const session = await ctx.db
+    .query("userSessions")
+    .withIndex("by_token_hash", (q) => q.eq("tokenHash", tokenHash))
+    .first();
+  if (session) {
+    return session;
+  }
+
+  // The token from before the last rotation, if the device never got the new one
+  return await ctx.db
+    .query("userSessions")
+    .withIndex("by_previous_token_hash", (q) => q.eq("previousTokenHash", tokenHash))
+    .first();
+}
+
+// Look up the user owning an auth token, or null if the token is unknown
+export async function getUserByToken(ctx: QueryCtx, authToken: string) {
+  const session = await getSession(ctx, authToken);
+  if (session) {
+    return await ctx.db.get(session.userId);
+  }
+
+  // Tokens issued before sessions existed, until migrateLegacyTokens has run
+  return await ctx.db
+    .query("users")
+    .withIndex("by_auth_token", (q) => q.eq("authToken", authToken))
+    .first();
+}
+
+// Look up the user owning an auth token, failing if there is none
+export async function requireUser(ctx: QueryCtx, authToken: string) {
+  const user = await getUserByToken(ctx, authToken);
+
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  return user;
+}
+
+// Start a new device session for a user and return its token
+async function createSession(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  deviceLabel: string
+): Promise<string> {
+  const now = Date.now();
+  const authToken = generateToken();
+  await ctx.db.insert("userSessions", {
+    userId,
+    tokenHash: await hashToken(authToken),
+    deviceLabel,
+    createdAt: now,
+    tokenIssuedAt: now,
+    lastSeenAt: now,
+  });
+  return authToken;
+}
+
+// How long an admin session stays valid
+const ADMIN_SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Look up the admin behind a session token, or null if the session is invalid
+async function getAdminForToken(ctx: QueryCtx, adminToken: string) {
+  const session = await ctx.db
+    .query("adminSessions")
+    .withIndex("by_token", (q) => q.eq("token", adminToken))
+    .first();
+
+  if (!session || session.expiresAt <= Date.now()) {
+    return null;
   }
-  return result;
+
+  return await ctx.db.get(session.adminId);
 }
 
-// Simple hash function for passwords (in production, use bcrypt or similar)
-function hashPassword(password: string): string {
-  let hash = 0;
-  for (let i = 0; i < password.length; i++) {
-    const char = password.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
+// Validate an admin session token, failing if it is missing, expired or revoked.
+// Every admin-only query and mutation must call this first.
+export async function requireAdmin(ctx: QueryCtx, adminToken: string) {
+  const admin = await getAdminForToken(ctx, adminToken);
+
+  if (!admin) {
+    throw new Error("Not authorized");
   }
-  return hash.toString(16) + "_" + password.length + "_" + password.split("").reverse().join("");
+
+  return admin;
 }
 
 // Create an anonymous user
 export const createAnonymousUser = mutation({
-  args: {},
-  handler: async (ctx) => {
-    const authToken = generateToken();
+  args: { deviceLabel: v.optional(v.string()) },
+  handler: async (ctx, args) => {
     const userId = await ctx.db.insert("users", {
-      authToken,
       createdAt: Date.now(),
     });
+    const authToken = await createSession(ctx, userId, args.deviceLabel ?? "Unbekanntes Gerät");
     return { userId, authToken };
   },
 });
 
+// Record that a device is in use, rotating its token once it gets old.
+// Returns the new token if the client has to store one. The old token keeps
+// working until the new one is first used here, in case the response is lost.
+export const touchSession = mutation({
+  args: { authToken: v.string() },
+  handler: async (ctx, args) => {
+    const session = await getSession(ctx, args.authToken);
+    if (!session) {
+      // Legacy tokens stay valid until they are migrated
+      const user = await getUserByToken(ctx, args.authToken);
+      return { valid: user !== null, authToken: null };
+    }
+
+    const now = Date.now();
+    // The device still has the previous token, so it never stored the new one
+    const usedPrevious = session.tokenHash !== (await hashToken(args.authToken));
+    if (usedPrevious || now - session.tokenIssuedAt > TOKEN_ROTATION_MS) {
+      const authToken = generateToken();
+      await ctx.db.patch(session._id, {
+        tokenHash: await hashToken(authToken),
+        previousTokenHash: usedPrevious ? session.previousTokenHash : session.tokenHash,
+        tokenIssuedAt: now,
+        lastSeenAt: now,
+      });
+      return { valid: true, authToken };
+    }
+
+    // The new token is in use, the previous one can go
+    if (session.previousTokenHash !== undefined) {
+      await ctx.db.patch(session._id, { previousTokenHash: undefined, lastSeenAt: now });
+      return { valid: true, authToken: null };
+    }
+
+    if (now - session.lastSeenAt > LAST_SEEN_INTERVAL_MS) {
+      await ctx.db.patch(session._id, { lastSeenAt: now });
+    }
+    return { valid: true, authToken: null };
+  },
+});
+
+// List the devices signed into the user's account
+export const listSessions = query({
+  args: { authToken: v.string() },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.authToken);
+    const currentSession = await getSession(ctx, args.authToken);
+    const sessions = await ctx.db
+      .query("userSessions")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    return sessions
+      .sort((a, b) => b.lastSeenAt - a.lastSeenAt)
+      .map((session) => ({
+        _id: session._id,
+        deviceLabel: session.deviceLabel,
+        createdAt: session.createdAt,
+        lastSeenAt: session.lastSeenAt,
+        isCurrent: session._id === currentSession?._id,
+      }));
+  },
+});
+
+// Sign out a single device of the user's account
+export const revokeSession = mutation({
+  args: { authToken: v.string(), sessionId: v.id("userSessions") },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.authToken);
+    const session = await ctx.db.get(args.sessionId);
+
+    if (!session || session.userId !== user._id) {
+      throw new Error("Session not found");
+    }
+
+    await ctx.db.delete(session._id);
+    return { success: true };
+  },
+});
+
+// Sign out the current device
+export const signOut = mutation({
+  args: { authToken: v.string() },
+  handler: async (ctx, args) => {
+    const session = await getSession(ctx, args.authToken);
+    if (session) {
+      await ctx.db.delete(session._id);
+    }
+    return { success: true };
+  },
+});
+
+// Sign out every device of the user's account, including the current one
+export const signOutEverywhere = mutation({
+  args: { authToken: v.string() },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx, args.authToken);
+    const sessions = await ctx.db
+      .query("userSessions")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    for (const session of sessions) {
+      await ctx.db.delete(session._id);
+    }
+    if (user.authToken) {
+      await ctx.db.patch(user._id, { authToken: undefined });
+    }
+
+    return { signedOut: sessions.length };
+  },
+});
+
+// Move tokens stored in plaintext on users into hashed sessions (run once)
+export const migrateLegacyTokens = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const users = await ctx.db.query("users").collect();
+    let migrated = 0;
+
+    for (const user of users) {
+      if (!user.authToken) continue;
+
+      const now = Date.now();
+      await ctx.db.insert("userSessions", {
+        userId: user._id,
+        tokenHash: await hashToken(user.authToken),
+        deviceLabel: "Unbekanntes Gerät",
+        createdAt: user.createdAt,
+        tokenIssuedAt: now,
+        lastSeenAt: now,
+      });
+      await ctx.db.patch(user._id, { authToken: undefined });
+      migrated++;
+    }
+
+    return { migrated };
+  },
+});
+
 // Get user by auth token
 export const getUser = query({
   args: { authToken: v.string() },
   handler: async (ctx, args) => {
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_auth_token", (q) => q.eq("authToken", args.authToken))
-      .first();
-    return user;
+    const user = await getUserByToken(ctx, args.authToken);
+    if (!user) return null;
+
+    return { _id: user._id, email: user.email, createdAt: user.createdAt };
   },
 });
 
-// Login with email (creates user if doesn't exist, or returns existing)
-export const loginWithEmail = mutation({
+// How long a login code stays valid
+const LOGIN_CODE_TTL_MS = 10 * 60 * 1000;
+// How long to wait before another code can be sent to the same address
+const LOGIN_CODE_COOLDOWN_MS = 60 * 1000;
+// Wrong guesses allowed before a code is burned
+const LOGIN_CODE_MAX_ATTEMPTS = 5;
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Generate a random 6-digit login code
+function generateLoginCode(): string {
+  const [value] = crypto.getRandomValues(new Uint32Array(1));
+  return (value % 1000000).toString().padStart(6, "0");
+}
+
+// Send a one-time login code to an email address
+export const requestLoginCode = mutation({
   args: { email: v.string() },
   handler: async (ctx, args) => {
+    const email = normalizeEmail(args.email);
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      throw new Error("Invalid email address");
+    }
+
+    const existingCodes = await ctx.db
+      .query("loginCodes")
+      .withIndex("by_email", (q) => q.eq("email", email))
+      .collect();
+
+    const now = Date.now();
+    if (existingCodes.some((c) => now - c.createdAt < LOGIN_CODE_COOLDOWN_MS)) {
+      throw new Error("Please wait a moment before requesting another code");
+    }
+
+    // Only the newest code is valid
+    for (const existing of existingCodes) {
+      await ctx.db.delete(existing._id);
+    }
+
+    const code = generateLoginCode();
+    await ctx.db.insert("loginCodes", {
+      email,
+      code,
+      attempts: 0,
+      createdAt: now,
+      expiresAt: now + LOGIN_CODE_TTL_MS,
+    });
+
+    await ctx.scheduler.runAfter(0, internal.mailer.sendLoginCode, { email, code });
+
+    return { success: true };
+  },
+});
+
+// Confirm a login code. Logs into the account for that email, or links the
+// email to the current anonymous user if nobody has claimed it yet.
+// Failures are returned rather than thrown so the attempt count is saved.
+export const verifyLoginCode = mutation({
+  args: {
+    email: v.string(),
+    code: v.string(),
+    authToken: v.optional(v.string()),
+    deviceLabel: v.optional(v.string()),
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<
+    | { success: true; userId: Id<"users">; authToken: string }
+    | { success: false; error: string }
+  > => {
+    const email = normalizeEmail(args.email);
+    const loginCode = await ctx.db
+      .query("loginCodes")
+      .withIndex("by_email", (q) => q.eq("email", email))
+      .first();
+
+    if (!loginCode || loginCode.expiresAt <= Date.now()) {
+      return { success: false, error: "Code expired, please request a new one" };
+    }
+
+    if (loginCode.code !== args.code.trim()) {
+      const attempts = loginCode.attempts + 1;
+      if (attempts >= LOGIN_CODE_MAX_ATTEMPTS) {
+        await ctx.db.delete(loginCode._id);
+        return { success: false, error: "Too many attempts, please request a new code" };
+      }
+      await ctx.db.patch(loginCode._id, { attempts });
+      return { success: false, error: "Invalid code" };
+    }
+
+    await ctx.db.delete(loginCode._id);
+
     // Check if user with this email exists
     const existingUser = await ctx.db
       .query("users")
-      .withIndex("by_email", (q) => q.eq("email", args.email))
+      .withIndex("by_email", (q) => q.eq("email", email))
       .first();
 
+    const deviceLabel = args.deviceLabel ?? "Unbekanntes Gerät";
+
     if (existingUser) {
-      return { userId: existingUser._id, authToken: existingUser.authToken };
+      // Each login gets its own session so devices can be signed out separately
+      const authToken = await createSession(ctx, existingUser._id, deviceLabel);
+      return { success: true, userId: existingUser._id, authToken };
+    }
+
+    // Link the email to the current anonymous user, keeping their history
+    const currentUser = args.authToken ? await getUserByToken(ctx, args.authToken) : null;
+
+    if (currentUser && !currentUser.email) {
+      await ctx.db.patch(currentUser._id, { email });
+      return { success: true, userId: currentUser._id, authToken: args.authToken! };
     }
 
     // Create new user with email
-    const authToken = generateToken();
     const userId = await ctx.db.insert("users", {
-      authToken,
-      email: args.email,
+      email,
       createdAt: Date.now(),
     });
-    return { userId, authToken };
+    const authToken = await createSession(ctx, userId, deviceLabel);
+    return { success: true, userId, authToken };
   },
 });
 
-// Link email to existing anonymous user
-export const linkEmail = mutation({
-  args: { authToken: v.string(), email: v.string() },
+// Minimum length for admin passwords
+const MIN_PASSWORD_LENGTH = 8;
+
+// Load an admin record by email (for the password actions)
+export const getAdminByEmail = internalQuery({
+  args: { email: v.string() },
   handler: async (ctx, args) => {
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_auth_token", (q) => q.eq("authToken", args.authToken))
+    return await ctx.db
+      .query("admins")
+      .withIndex("by_email", (q) => q.eq("email", args.email))
       .first();
+  },
+});
 
-    if (!user) {
-      throw new Error("User not found");
-    }
+// Load the admin behind a session token (for the password actions)
+export const getAdminBySession = internalQuery({
+  args: { adminToken: v.string() },
+  handler: async (ctx, args) => {
+    return await requireAdmin(ctx, args.adminToken);
+  },
+});
 
-    // Check if email is already in use
-    const existingWithEmail = await ctx.db
-      .query("users")
-      .withIndex("by_email", (q) => q.eq("email", args.email))
-      .first();
+// Whether any admin account exists yet
+export const hasAnyAdmin = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    return (await ctx.db.query("admins").first()) !== null;
+  },
+});
+
+export const insertAdmin = internalMutation({
+  args: { email: v.string(), passwordHash: v.string() },
+  handler: async (ctx, args) => {
+    return await ctx.db.insert("admins", {
+      email: args.email,
+      passwordHash: args.passwordHash,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+// Store a new password hash. When the password was changed, every other
+// session of the admin is revoked as well.
+export const setAdminPasswordHash = internalMutation({
+  args: {
+    adminId: v.id("admins"),
+    passwordHash: v.string(),
+    keepSessionToken: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.adminId, { passwordHash: args.passwordHash });
 
-    if (existingWithEmail && existingWithEmail._id !== user._id) {
-      throw new Error("Email already in use");
+    if (args.keepSessionToken !== undefined) {
+      const sessions = await ctx.db
+        .query("adminSessions")
+        .withIndex("by_admin", (q) => q.eq("adminId", args.adminId))
+        .collect();
+      for (const session of sessions) {
+        if (session.token !== args.keepSessionToken) {
+          await ctx.db.delete(session._id);
+        }
+      }
     }
+  },
+});
 
-    await ctx.db.patch(user._id, { email: args.email });
-    return { success: true };
+export const createAdminSession = internalMutation({
+  args: { adminId: v.id("admins") },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const token = generateToken();
+    await ctx.db.insert("adminSessions", {
+      adminId: args.adminId,
+      token,
+      createdAt: now,
+      expiresAt: now + ADMIN_SESSION_TTL_MS,
+    });
+    return token;
   },
 });
 
-// Admin login
-export const adminLogin = mutation({
+// Admin login. Records still using an outdated hash are transparently
+// rehashed once the password has been verified.
+export const adminLogin = action({
   args: { email: v.string(), password: v.string() },
-  handler: async (ctx, args) => {
-    const admin = await ctx.db
-      .query("admins")
-      .withIndex("by_email", (q) => q.eq("email", args.email))
-      .first();
+  handler: async (
+    ctx,
+    args
+  ): Promise<{ adminId: Id<"admins">; email: string; token: string }> => {
+    const admin = await ctx.runQuery(internal.auth.getAdminByEmail, {
+      email: args.email,
+    });
 
-    if (!admin) {
+    if (!admin || !(await verifyPassword(args.password, admin.passwordHash))) {
       throw new Error("Invalid credentials");
     }
 
-    const passwordHash = hashPassword(args.password);
-    if (admin.passwordHash !== passwordHash) {
-      throw new Error("Invalid credentials");
+    if (needsRehash(admin.passwordHash)) {
+      await ctx.runMutation(internal.auth.setAdminPasswordHash, {
+        adminId: admin._id,
+        passwordHash: await hashPassword(args.password),
+      });
     }
 
-    // Return admin info (in production, create a session token)
-    return { adminId: admin._id, email: admin.email };
+    const token: string = await ctx.runMutation(internal.auth.createAdminSession, {
+      adminId: admin._id,
+    });
+
+    return { adminId: admin._id, email: admin.email, token };
   },
 });
 
-// Seed admin account (run once to create initial admin)
-export const seedAdmin = mutation({
-  args: { email: v.string(), password: v.string() },
+// Change the password of the logged-in admin
+export const changeAdminPassword = action({
+  args: {
+    adminToken: v.string(),
+    currentPassword: v.string(),
+    newPassword: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean }> => {
+    const admin = await ctx.runQuery(internal.auth.getAdminBySession, {
+      adminToken: args.adminToken,
+    });
+
+    if (!(await verifyPassword(args.currentPassword, admin.passwordHash))) {
+      throw new Error("Current password is incorrect");
+    }
+
+    if (args.newPassword.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(
+        `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`
+      );
+    }
+
+    await ctx.runMutation(internal.auth.setAdminPasswordHash, {
+      adminId: admin._id,
+      passwordHash: await hashPassword(args.newPassword),
+      keepSessionToken: args.adminToken,
+    });
+
+    return { success: true };
+  },
+});
+
+// Admin logout (revokes the session token)
+export const adminLogout = mutation({
+  args: { adminToken: v.string() },
   handler: async (ctx, args) => {
-    // Check if admin already exists
-    const existing = await ctx.db
-      .query("admins")
-      .withIndex("by_email", (q) => q.eq("email", args.email))
+    const session = await ctx.db
+      .query("adminSessions")
+      .withIndex("by_token", (q) => q.eq("token", args.adminToken))
       .first();
 
+    if (session) {
+      await ctx.db.delete(session._id);
+    }
+
+    return { success: true };
+  },
+});
+
+// Seed admin account (run once to create initial admin). Once any admin
+// exists, further admins can only be seeded with the ADMIN_BOOTSTRAP_SECRET
+// from the deployment's environment.
+export const seedAdmin = action({
+  args: {
+    email: v.string(),
+    password: v.string(),
+    bootstrapSecret: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<{ success: boolean; message: string }> => {
+    if (await ctx.runQuery(internal.auth.hasAnyAdmin, {})) {
+      const secret = process.env.ADMIN_BOOTSTRAP_SECRET;
+      if (!secret || args.bootstrapSecret !== secret) {
+        throw new Error("An admin already exists; a valid bootstrap secret is required");
+      }
+    }
+
+    // Check if admin already exists
+    const existing = await ctx.runQuery(internal.auth.getAdminByEmail, {
+      email: args.email,
+    });
+
     if (existing) {
       return { success: false, message: "Admin already exists" };
     }
 
-    const passwordHash = hashPassword(args.password);
-    await ctx.db.insert("admins", {
+    if (args.password.length < MIN_PASSWORD_LENGTH) {
+      throw new Error(
+        `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`
+      );
+    }
+
+    await ctx.runMutation(internal.auth.insertAdmin, {
       email: args.email,
-      passwordHash,
-      createdAt: Date.now(),
+      passwordHash: await hashPassword(args.password),
     });
 
     return { success: true, message: "Admin created successfully" };
   },
 });
 
-// Verify admin by email (for session validation)
+// Verify an admin session token (for session validation)
 export const verifyAdmin = query({
-  args: { email: v.string() },
+  args: { adminToken: v.string() },
   handler: async (ctx, args) => {
-    const admin = await ctx.db
-      .query("admins")
-      .withIndex("by_email", (q) => q.eq("email", args.email))
-      .first();
+    const admin = await getAdminForToken(ctx, args.adminToken);
 
     return admin ? { adminId: admin._id, email: admin.email } : null;
   },
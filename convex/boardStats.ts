@@ -0,0 +1,156 @@
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { query, QueryCtx } from "./_generated/server";
+import { requireAdmin } from "./auth";
+import { getBoardAtRevision } from "./revisions";
+import { diffBoardGroups } from "../utils/boardDiff";
+import { GAME_MODES, Group } from "../utils/gameLogic";
+
+// How many of the most common wrong guesses to report
+const TOP_WRONG_GUESSES = 5;
+
+// Whether a game says something about how hard the groups are on their own.
+// Hard mode forces the assigned order and revealing hints hand out groups,
+// both would pull the result towards the current labels.
+export function isUnguidedGame(game: Doc<"gameHistory">): boolean {
+  return (
+    !GAME_MODES[game.mode ?? "classic"].inDifficultyOrder &&
+    !(game.hints ?? []).some((hint) => hint.type !== "check-pair")
+  );
+}
+
+// Aggregate every finished game of a board, optionally only the games that
+// pass a filter. Zen games are left out, their unlimited mistakes would skew
+// the numbers. Guesses are matched against the revision each game was played
+// on and counted for the group it is now.
+export async function computeBoardStats(
+  ctx: QueryCtx,
+  boardId: Id<"boards">,
+  include: (game: Doc<"gameHistory">) => boolean = () => true
+) {
+  const board = await ctx.db.get(boardId);
+  const history = (
+    await ctx.db
+      .query("gameHistory")
+      .withIndex("by_board", (q) => q.eq("boardId", boardId))
+      .collect()
+  ).filter((game) => GAME_MODES[game.mode ?? "classic"].countsTowardStats && include(game));
+
+  const plays = history.length;
+  const wins = history.filter((game) => game.won).length;
+  let totalMistakes = 0;
+
+  // Wrong guesses keyed by their sorted words, so the order they were
+  // picked in doesn't matter
+  const wrongGuesses = new Map<
+    string,
+    { words: string[]; count: number; nearGroupName?: string }
+  >();
+  // Sum of the positions (1-4) at which each group was found
+  const solvePositions = new Map<string, { total: number; count: number }>();
+  // One-away guesses per group they were close to
+  const nearMisses = new Map<string, number>();
+
+  // The groups of the revision a game was played on, each with the name of
+  // the group it became in the current revision (if it still exists)
+  const playedGroups = new Map<number, { group: Group; currentName?: string }[]>();
+  const getPlayedGroups = async (revision: number = 1) => {
+    let groups = playedGroups.get(revision);
+    if (!groups) {
+      const played = board ? (await getBoardAtRevision(ctx, board, revision)).groups : [];
+      const diffs = diffBoardGroups(played, board?.groups ?? []);
+      groups = played.map((group) => ({
+        group,
+        currentName: diffs.find((d) => d.before === group)?.after?.name,
+      }));
+      playedGroups.set(revision, groups);
+    }
+    return groups;
+  };
+
+  for (const game of history) {
+    const groups = await getPlayedGroups(game.boardRevision);
+    let position = 0;
+    for (const guess of game.selectedGroups) {
+      if (guess.correct) {
+        position++;
+        const name = groups.find((g) =>
+          g.group.words.every((w) => guess.words.includes(w))
+        )?.currentName;
+        if (name) {
+          const entry = solvePositions.get(name) ?? { total: 0, count: 0 };
+          solvePositions.set(name, {
+            total: entry.total + position,
+            count: entry.count + 1,
+          });
+        }
+        continue;
+      }
+
+      totalMistakes++;
+      const nearGroupName = guess.nearGroupName
+        ? (groups.find((g) => g.group.name === guess.nearGroupName)?.currentName ??
+          guess.nearGroupName)
+        : undefined;
+      if (nearGroupName) {
+        nearMisses.set(nearGroupName, (nearMisses.get(nearGroupName) ?? 0) + 1);
+      }
+      const words = [...guess.words].sort();
+      const key = words.join("|");
+      const entry = wrongGuesses.get(key) ?? {
+        words,
+        count: 0,
+        nearGroupName,
+      };
+      wrongGuesses.set(key, { ...entry, count: entry.count + 1 });
+    }
+  }
+
+  const solveOrder = (board?.groups ?? [])
+    .map((group) => {
+      const entry = solvePositions.get(group.name);
+      return {
+        groupName: group.name,
+        difficulty: group.difficulty,
+        solvedCount: entry?.count ?? 0,
+        solveRate: plays > 0 ? Math.round(((entry?.count ?? 0) / plays) * 100) : 0,
+        nearMisses: nearMisses.get(group.name) ?? 0,
+        averagePosition: entry ? Math.round((entry.total / entry.count) * 10) / 10 : null,
+      };
+    })
+    .sort((a, b) => (a.averagePosition ?? Infinity) - (b.averagePosition ?? Infinity));
+
+  return {
+    plays,
+    wins,
+    winRate: plays > 0 ? Math.round((wins / plays) * 100) : 0,
+    averageMistakes: plays > 0 ? Math.round((totalMistakes / plays) * 10) / 10 : 0,
+    commonWrongGuesses: [...wrongGuesses.values()]
+      .sort((a, b) => b.count - a.count)
+      .slice(0, TOP_WRONG_GUESSES),
+    solveOrder,
+  };
+}
+
+// How a board went for everyone, shown to players once they have finished it.
+// Only totals, nothing that would give away the solution.
+export const getBoardSummary = query({
+  args: { boardId: v.id("boards") },
+  handler: async (ctx, args) => {
+    const stats = await computeBoardStats(ctx, args.boardId);
+    return {
+      plays: stats.plays,
+      winRate: stats.winRate,
+      averageMistakes: stats.averageMistakes,
+    };
+  },
+});
+
+// Full breakdown of a board for admins
+export const getBoardStatsForAdmin = query({
+  args: { adminToken: v.string(), boardId: v.id("boards") },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.adminToken);
+    return await computeBoardStats(ctx, args.boardId);
+  },
+});
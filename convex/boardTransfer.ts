@@ -0,0 +1,155 @@
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { action, internalMutation, internalQuery, query } from "./_generated/server";
+import { requireAdmin } from "./auth";
+import { getBoardsOnDate, getTodayDate } from "./boards";
+import { boardStatusValidator, groupValidator } from "./schema";
+import { BoardRecord, parseBoardsCsv, parseBoardsJson } from "../utils/boardTransfer";
+import {
+  getBoardStatus,
+  getBoardStatusLabel,
+  isStatusAllowedOnDate,
+} from "../utils/boardStatus";
+
+const boardRecordValidator = v.object({
+  date: v.optional(v.string()),
+  isPastPool: v.boolean(),
+  status: v.optional(boardStatusValidator),
+  groups: v.array(groupValidator),
+});
+
+// Which of the given dates already have a board
+export const getTakenDates = internalQuery({
+  args: { dates: v.array(v.string()) },
+  handler: async (ctx, args) => {
+    const taken: string[] = [];
+    for (const date of args.dates) {
+      if ((await getBoardsOnDate(ctx, date)).length > 0) taken.push(date);
+    }
+    return taken;
+  },
+});
+
+export const insertBoards = internalMutation({
+  args: { boards: v.array(boardRecordValidator) },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const today = getTodayDate();
+    for (const board of args.boards) {
+      // The action checks this per row, but only the mutation can be trusted
+      if (board.status && !isStatusAllowedOnDate(board.status, board.date, today)) {
+        throw new Error(`A ${board.status} board cannot have the date ${board.date ?? "none"}`);
+      }
+      // Checked again here, a board may have been created since the action looked
+      if (board.date) {
+        const existing = await getBoardsOnDate(ctx, board.date);
+        if (existing.length > 0) {
+          throw new Error(`A board for ${board.date} already exists`);
+        }
+      }
+
+      await ctx.db.insert("boards", {
+        words: board.groups.flatMap((g) => g.words),
+        groups: board.groups,
+        date: board.date,
+        isPastPool: board.isPastPool,
+        status: board.status ?? "draft",
+        randomKey: Math.random(),
+        createdAt: now,
+      });
+    }
+    return args.boards.length;
+  },
+});
+
+// Import many boards from a JSON or CSV file. Every row is checked first;
+// nothing is imported unless all rows are valid. A dry run only checks.
+export const importBoards = action({
+  args: {
+    adminToken: v.string(),
+    format: v.union(v.literal("json"), v.literal("csv")),
+    content: v.string(),
+    dryRun: v.boolean(),
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<{
+    dryRun: boolean;
+    imported: number;
+    rows: { row: number; errors: string[]; warnings: string[] }[];
+  }> => {
+    await ctx.runQuery(internal.auth.getAdminBySession, { adminToken: args.adminToken });
+
+    const parsed =
+      args.format === "json" ? parseBoardsJson(args.content) : parseBoardsCsv(args.content);
+
+    // Dates must be free, both in the database and within the file
+    const dates = parsed.flatMap((r) => ("board" in r && r.board.date ? [r.board.date] : []));
+    const takenDates = new Set(
+      await ctx.runQuery(internal.boardTransfer.getTakenDates, { dates })
+    );
+    const seenDates = new Set<string>();
+    const today = getTodayDate();
+
+    const boards: BoardRecord[] = [];
+    const rows = parsed.map((r) => {
+      if (!("board" in r)) {
+        return { row: r.row, errors: r.errors, warnings: [] };
+      }
+
+      const errors: string[] = [];
+      const { date } = r.board;
+      if (date && takenDates.has(date)) {
+        errors.push(`Für ${date} gibt es schon ein Spielbrett`);
+      }
+      if (date && seenDates.has(date)) {
+        errors.push(`Das Datum ${date} kommt mehrfach in der Datei vor`);
+      }
+      if (date) seenDates.add(date);
+      // The same rules as changing the status in the admin app
+      const { status } = r.board;
+      if (status && !isStatusAllowedOnDate(status, date, today)) {
+        errors.push(
+          date
+            ? `Status „${getBoardStatusLabel(status)}“ passt nicht zum Datum ${date}`
+            : `Status „${getBoardStatusLabel(status)}“ braucht ein Datum`
+        );
+      }
+
+      boards.push(r.board);
+      return { row: r.row, errors, warnings: r.warnings };
+    });
+
+    const isValid = rows.every((r) => r.errors.length === 0);
+    const imported =
+      !args.dryRun && isValid && boards.length > 0
+        ? await ctx.runMutation(internal.boardTransfer.insertBoards, { boards })
+        : 0;
+
+    return { dryRun: args.dryRun, imported, rows };
+  },
+});
+
+// Get every board in the interchange format, for backups
+export const exportBoards = query({
+  args: { adminToken: v.string() },
+  handler: async (ctx, args): Promise<BoardRecord[]> => {
+    await requireAdmin(ctx, args.adminToken);
+    const today = getTodayDate();
+    const boards = await ctx.db.query("boards").collect();
+
+    return boards
+      .filter((board) => !board.deletedAt)
+      .sort(
+        (a, b) => (a.date ?? "").localeCompare(b.date ?? "") || a.createdAt - b.createdAt
+      )
+      .map((board) => ({
+        date: board.date,
+        isPastPool: board.isPastPool,
+        status: getBoardStatus(board, today),
+        groups: board.groups,
+        puzzleNumber: board.puzzleNumber,
+      }));
+  },
+});
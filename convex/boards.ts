@@ -1,105 +1,381 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
+import { internalMutation, mutation, MutationCtx, query, QueryCtx } from "./_generated/server";
+import { getUserByToken, requireAdmin, requireUser } from "./auth";
+import { deleteRevisions, saveRevision } from "./revisions";
+import { rebuildUserStats } from "./stats";
+import { boardStatusValidator, groupValidator } from "./schema";
+import { DEFAULT_PUZZLE_TIME_ZONE, getPuzzleDate, seededShuffle } from "../utils/gameLogic";
+import { getBoardStatus, getStatusChangeError } from "../utils/boardStatus";
+import {
+  BoardValidation,
+  assertValidBoard,
+  normalizeGroups,
+  normalizeWord,
+  validateBoard,
+} from "../utils/boardValidation";
 
-// Get today's date in YYYY-MM-DD format
-function getTodayDate(): string {
-  const now = new Date();
-  return now.toISOString().split("T")[0];
+// Get today's (or the given moment's) puzzle day in YYYY-MM-DD format. The
+// day starts at midnight in PUZZLE_TIME_ZONE (default Europe/Berlin), not UTC.
+export function getTodayDate(now: Date = new Date()): string {
+  return getPuzzleDate(process.env.PUZZLE_TIME_ZONE ?? DEFAULT_PUZZLE_TIME_ZONE, now);
 }
 
-// Get today's board
+// The words of a board in the stable shuffled order players see
+export function getPlayerWords(board: Doc<"boards">): string[] {
+  return seededShuffle(board.words, board._id);
+}
+
+// Player-facing view of a board, without words or groups. The words are only
+// handed out by starting a game, so the clock runs from the moment they can
+// be seen; groups are only revealed once solved or after the game is over.
+function toPlayerBoard(board: Doc<"boards">) {
+  return {
+    _id: board._id,
+    date: board.date,
+    puzzleNumber: board.puzzleNumber,
+  };
+}
+
+// The boards scheduled for a day. There should be at most one, but boards
+// from before dates were unique may share a day. Boards in the trash don't
+// hold on to their day.
+export async function getBoardsOnDate(ctx: QueryCtx, date: string) {
+  const boards = await ctx.db
+    .query("boards")
+    .withIndex("by_date", (q) => q.eq("date", date))
+    .collect();
+  return boards.filter((b) => !b.deletedAt);
+}
+
+// How to handle saving a board for a day another board already has:
+// "reject" fails, "swap" gives the other board the saved board's old date
+// (or no date, for a new or undated board)
+const dateConflictValidator = v.union(v.literal("reject"), v.literal("swap"));
+
+// Free up a date for a board before it is saved
+async function resolveDateConflict(
+  ctx: MutationCtx,
+  date: string,
+  boardId: Id<"boards"> | null,
+  previousDate: string | undefined,
+  onConflict: "reject" | "swap"
+) {
+  const others = (await getBoardsOnDate(ctx, date)).filter((b) => b._id !== boardId);
+  if (others.length === 0) return;
+
+  if (onConflict === "reject") {
+    throw new Error(`A board for ${date} already exists`);
+  }
+  // A published board keeps its day, players have already seen it
+  if (others.some((b) => hasBeenLive(b))) {
+    throw new Error(`The board for ${date} has already been published`);
+  }
+  // A board moved onto a day that has come would go live without review
+  if (previousDate && previousDate <= getTodayDate()) {
+    throw new Error(`Boards can't be swapped onto ${previousDate}, that day has already begun`);
+  }
+  for (const other of others) {
+    await ctx.db.patch(other._id, { date: previousDate });
+  }
+}
+
+// Whether players can see a board today
+function isPublished(board: Doc<"boards">): boolean {
+  return !board.deletedAt && getBoardStatus(board, getTodayDate()) === "published";
+}
+
+// Whether a board has been live, so its day can no longer be given away
+function hasBeenLive(board: Doc<"boards">): boolean {
+  if (board.deletedAt) return false;
+  const status = getBoardStatus(board, getTodayDate());
+  return status === "published" || status === "retired" || board.puzzleNumber !== undefined;
+}
+
+// First day (YYYY-MM-DD) of the month after the given YYYY-MM month
+function getNextMonthStart(month: string): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const next = new Date(Date.UTC(year, monthIndex, 1));
+  return next.toISOString().slice(0, 10);
+}
+
+// Get today's board. Clients pass their puzzle day so the subscription
+// switches over at midnight; days after the server's today are not served.
 export const getTodaysBoard = query({
+  args: { date: v.optional(v.string()) },
+  handler: async (ctx, args) => {
+    const serverToday = getTodayDate();
+    const today = args.date && args.date <= serverToday ? args.date : serverToday;
+    const board = (await getBoardsOnDate(ctx, today)).find(isPublished);
+    return board ? toPlayerBoard(board) : null;
+  },
+});
+
+// Get a random past board from the pool that the user hasn't played yet, in
+// any mode. Boards are ordered by their random key and the first unplayed one
+// after `after` is returned, wrapping around at the end. The same arguments
+// give the same board, and passing the returned key gets the next one.
+export const getRandomPastBoard = query({
+  args: {
+    authToken: v.optional(v.string()),
+    after: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const today = getTodayDate();
+    const after = args.after ?? -1;
+    const user = args.authToken ? await requireUser(ctx, args.authToken) : null;
+    const history = user
+      ? await ctx.db
+          .query("gameHistory")
+          .withIndex("by_user", (q) => q.eq("userId", user._id))
+          .collect()
+      : [];
+    const played = new Set(history.map((game) => game.boardId));
+
+    // Never hand out today's board or one that isn't live; retired boards
+    // stay in the pool but are no longer drawn
+    const isAvailable = (board: Doc<"boards">) =>
+      (!board.date || board.date < today) && isPublished(board) && !played.has(board._id);
+
+    for await (const board of ctx.db
+      .query("boards")
+      .withIndex("by_past_pool_and_random_key", (q) =>
+        q.eq("isPastPool", true).gt("randomKey", after)
+      )) {
+      if (isAvailable(board)) {
+        return { ...toPlayerBoard(board), randomKey: board.randomKey! };
+      }
+    }
+    // Boards without a key sort first, so they are reached on wrapping around
+    for await (const board of ctx.db
+      .query("boards")
+      .withIndex("by_past_pool_and_random_key", (q) => q.eq("isPastPool", true))) {
+      if (board.randomKey !== undefined && board.randomKey > after) break;
+      if (isAvailable(board)) {
+        return { ...toPlayerBoard(board), randomKey: board.randomKey ?? -1 };
+      }
+    }
+    return null;
+  },
+});
+
+// Move boards whose date has passed into the random pool (run by cron)
+export const rotatePastPool = internalMutation({
   args: {},
   handler: async (ctx) => {
     const today = getTodayDate();
-    const board = await ctx.db
+    const boards = await ctx.db
+      .query("boards")
+      .withIndex("by_past_pool", (q) => q.eq("isPastPool", false))
+      .collect();
+
+    let moved = 0;
+    for (const board of boards) {
+      if (board.date && board.date < today && isPublished(board)) {
+        await ctx.db.patch(board._id, { isPastPool: true });
+        moved++;
+      }
+    }
+
+    return { moved };
+  },
+});
+
+// Number boards whose day has come, in date order (run by cron). Numbers are
+// never changed afterwards, even if the board's date is edited.
+export const assignPuzzleNumbers = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const today = getTodayDate();
+    const unnumbered = await ctx.db
+      .query("boards")
+      .withIndex("by_puzzle_number", (q) => q.eq("puzzleNumber", undefined))
+      .collect();
+    const due = unnumbered
+      .filter((b) => b.date && b.date <= today && isPublished(b))
+      .sort((a, b) => a.date!.localeCompare(b.date!));
+
+    const lastNumbered = await ctx.db
       .query("boards")
-      .withIndex("by_date", (q) => q.eq("date", today))
+      .withIndex("by_puzzle_number")
+      .order("desc")
       .first();
-    return board;
+    let puzzleNumber = lastNumbered?.puzzleNumber ?? 0;
+
+    for (const board of due) {
+      puzzleNumber++;
+      await ctx.db.patch(board._id, { puzzleNumber });
+    }
+
+    return { assigned: due.length };
   },
 });
 
-// Get a random past board from the pool
-export const getRandomPastBoard = query({
-  args: { excludeBoardIds: v.optional(v.array(v.id("boards"))) },
+// List the daily boards of one month (YYYY-MM, default: the current month)
+// with the player's status for each. Future days are left out. Returns the
+// neighbouring months that have boards, for paging through the archive.
+export const listArchive = query({
+  args: {
+    authToken: v.optional(v.string()),
+    month: v.optional(v.string()),
+  },
   handler: async (ctx, args) => {
-    const pastBoards = await ctx.db
+    const today = getTodayDate();
+    const month = args.month ?? today.slice(0, 7);
+    if (!/^\d{4}-\d{2}$/.test(month)) {
+      throw new Error("Invalid month");
+    }
+
+    const monthStart = `${month}-01`;
+    const nextMonthStart = getNextMonthStart(month);
+    const boards = await ctx.db
       .query("boards")
-      .withIndex("by_past_pool", (q) => q.eq("isPastPool", true))
+      .withIndex("by_date", (q) => q.gte("date", monthStart).lt("date", nextMonthStart))
       .collect();
 
-    // Filter out excluded boards
-    const availableBoards = args.excludeBoardIds
-      ? pastBoards.filter((b) => !args.excludeBoardIds!.includes(b._id))
-      : pastBoards;
+    // A stale token shows the archive as it is for anonymous players
+    const user = args.authToken ? await getUserByToken(ctx, args.authToken) : null;
+    const results = user
+      ? await ctx.db
+          .query("gameHistory")
+          .withIndex("by_user", (q) => q.eq("userId", user._id))
+          .collect()
+      : [];
+    const games = user
+      ? await ctx.db
+          .query("games")
+          .withIndex("by_user_and_board", (q) => q.eq("userId", user._id))
+          .collect()
+      : [];
+    const resultByBoard = new Map(results.map((result) => [result.boardId, result]));
+    const inProgress = new Set(games.map((game) => game.boardId));
 
-    if (availableBoards.length === 0) {
-      return null;
+    // Retired boards only stay in the archive of players who played them
+    const isVisible = (board: Doc<"boards">) => {
+      if (board.date! > today || board.deletedAt) return false;
+      const status = getBoardStatus(board, today);
+      return status === "published" || (status === "retired" && resultByBoard.has(board._id));
+    };
+
+    const days = boards
+      .filter(isVisible)
+      .map((board) => {
+        const result = resultByBoard.get(board._id);
+        return {
+          boardId: board._id,
+          date: board.date!,
+          puzzleNumber: board.puzzleNumber,
+          status: result
+            ? result.won
+              ? ("won" as const)
+              : ("lost" as const)
+            : inProgress.has(board._id)
+              ? ("in-progress" as const)
+              : null,
+        };
+      });
+
+    // The nearest months with a board the player can open. Dated boards only:
+    // undated boards sort before every date in the index
+    let previous: Doc<"boards"> | null = null;
+    for await (const board of ctx.db
+      .query("boards")
+      .withIndex("by_date", (q) => q.gt("date", "").lt("date", monthStart))
+      .order("desc")) {
+      if (isVisible(board)) {
+        previous = board;
+        break;
+      }
+    }
+    let next: Doc<"boards"> | null = null;
+    for await (const board of ctx.db
+      .query("boards")
+      .withIndex("by_date", (q) => q.gte("date", nextMonthStart).lte("date", today))) {
+      if (isVisible(board)) {
+        next = board;
+        break;
+      }
     }
 
-    // Return random board
-    const randomIndex = Math.floor(Math.random() * availableBoards.length);
-    return availableBoards[randomIndex];
+    return {
+      month,
+      days,
+      previousMonth: previous?.date?.slice(0, 7) ?? null,
+      nextMonth: next?.date?.slice(0, 7) ?? null,
+    };
   },
 });
 
-// Get board by ID
+// Get board by ID. Retired boards can still be looked up, for history.
 export const getBoard = query({
   args: { boardId: v.id("boards") },
   handler: async (ctx, args) => {
+    const board = await ctx.db.get(args.boardId);
+    if (!board || !hasBeenLive(board)) {
+      return null;
+    }
+    return toPlayerBoard(board);
+  },
+});
+
+// Get board by ID including its solution (for admin)
+export const getBoardForAdmin = query({
+  args: { adminToken: v.string(), boardId: v.id("boards") },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.adminToken);
     return await ctx.db.get(args.boardId);
   },
 });
 
+// Player view of a board in any status, for test plays before it goes live
+export const getTestBoard = query({
+  args: { adminToken: v.string(), boardId: v.id("boards") },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.adminToken);
+    const board = await ctx.db.get(args.boardId);
+    return board ? { ...toPlayerBoard(board), words: getPlayerWords(board) } : null;
+  },
+});
+
 // List all boards (for admin)
 export const listBoards = query({
-  args: {},
-  handler: async (ctx) => {
+  args: { adminToken: v.string() },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.adminToken);
+    const today = getTodayDate();
     const boards = await ctx.db.query("boards").order("desc").collect();
-    return boards;
+    return boards
+      .filter((board) => !board.deletedAt)
+      .map((board) => ({ ...board, status: getBoardStatus(board, today) }));
   },
 });
 
 // Create a new board
 export const createBoard = mutation({
   args: {
-    words: v.array(v.string()),
-    groups: v.array(
-      v.object({
-        name: v.string(),
-        words: v.array(v.string()),
-        difficulty: v.union(
-          v.literal("easy"),
-          v.literal("medium"),
-          v.literal("hard"),
-          v.literal("very-hard")
-        ),
-      })
-    ),
+    adminToken: v.string(),
+    // Defaults to the words of the groups
+    words: v.optional(v.array(v.string())),
+    groups: v.array(groupValidator),
     date: v.optional(v.string()),
     isPastPool: v.boolean(),
+    onDateConflict: v.optional(dateConflictValidator),
   },
   handler: async (ctx, args) => {
-    // Validate that all words from groups are in the words array
-    const allGroupWords = args.groups.flatMap((g) => g.words);
-    if (allGroupWords.length !== 16) {
-      throw new Error("Board must have exactly 16 words in groups");
+    await requireAdmin(ctx, args.adminToken);
+    assertValidBoard(args);
+    if (args.date) {
+      await resolveDateConflict(ctx, args.date, null, undefined, args.onDateConflict ?? "reject");
     }
 
-    const uniqueWords = new Set(allGroupWords);
-    if (uniqueWords.size !== 16) {
-      throw new Error("All words must be unique");
-    }
-
-    // Ensure words array matches groups
-    const words = args.words.length === 16 ? args.words : allGroupWords;
-
+    const groups = normalizeGroups(args.groups);
     const boardId = await ctx.db.insert("boards", {
-      words,
-      groups: args.groups,
-      date: args.date,
+      words: args.words?.map(normalizeWord) ?? groups.flatMap((g) => g.words),
+      groups,
+      date: args.date || undefined,
       isPastPool: args.isPastPool,
+      status: "draft",
+      randomKey: Math.random(),
       createdAt: Date.now(),
     });
 
@@ -110,63 +386,317 @@ export const createBoard = mutation({
 // Update a board
 export const updateBoard = mutation({
   args: {
+    adminToken: v.string(),
     boardId: v.id("boards"),
     words: v.optional(v.array(v.string())),
-    groups: v.optional(
-      v.array(
-        v.object({
-          name: v.string(),
-          words: v.array(v.string()),
-          difficulty: v.union(
-            v.literal("easy"),
-            v.literal("medium"),
-            v.literal("hard"),
-            v.literal("very-hard")
-          ),
-        })
-      )
-    ),
+    groups: v.optional(v.array(groupValidator)),
     date: v.optional(v.string()),
     isPastPool: v.optional(v.boolean()),
+    onDateConflict: v.optional(dateConflictValidator),
   },
   handler: async (ctx, args) => {
-    const { boardId, ...updates } = args;
+    const { adminToken, boardId, onDateConflict, ...updates } = args;
+    await requireAdmin(ctx, adminToken);
+
     const board = await ctx.db.get(boardId);
 
     if (!board) {
       throw new Error("Board not found");
     }
+    if (board.deletedAt) {
+      throw new Error("Board is in the trash");
+    }
 
-    // If groups are updated, validate them
-    if (updates.groups) {
-      const allGroupWords = updates.groups.flatMap((g) => g.words);
-      if (allGroupWords.length !== 16) {
-        throw new Error("Board must have exactly 16 words in groups");
+    // The board as it will be after the update must be valid
+    const groups = updates.groups ?? board.groups;
+    assertValidBoard({ groups, words: updates.words, date: updates.date });
+    // Leaving the date out keeps it, an empty one would slip past the checks below
+    if (updates.date === "") {
+      throw new Error("A board's date can't be cleared");
+    }
+    if (updates.date !== undefined && updates.date !== board.date) {
+      // Players have seen the board on its day, and its number follows it
+      if (hasBeenLive(board)) {
+        throw new Error("The date of a board that has been live can't be changed");
       }
-
-      const uniqueWords = new Set(allGroupWords);
-      if (uniqueWords.size !== 16) {
-        throw new Error("All words must be unique");
+      // A scheduled board would go live on a day that has begun
+      if (
+        getBoardStatus(board, getTodayDate()) === "scheduled" &&
+        updates.date <= getTodayDate()
+      ) {
+        throw new Error("Scheduled boards can only be moved to a future day");
       }
+      await resolveDateConflict(ctx, updates.date, boardId, board.date, onDateConflict ?? "reject");
+    }
 
-      // Update words array to match groups
-      updates.words = allGroupWords;
+    // Words and groups change as a new revision, games already played keep theirs
+    const { words, groups: newGroups, ...fields } = updates;
+    if (newGroups || words) {
+      const normalizedGroups = normalizeGroups(groups);
+      await saveRevision(ctx, board, {
+        words: words?.map(normalizeWord) ?? normalizedGroups.flatMap((g) => g.words),
+        groups: normalizedGroups,
+      });
     }
 
-    await ctx.db.patch(boardId, updates);
+    await ctx.db.patch(boardId, fields);
     return boardId;
   },
 });
 
-// Delete a board
+// Move a board to another status, see BOARD_STATUS_TRANSITIONS. A board
+// must be valid before anyone else gets to see it.
+export const setBoardStatus = mutation({
+  args: {
+    adminToken: v.string(),
+    boardId: v.id("boards"),
+    status: boardStatusValidator,
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.adminToken);
+    const board = await ctx.db.get(args.boardId);
+    if (!board) {
+      throw new Error("Board not found");
+    }
+
+    if (board.deletedAt) {
+      throw new Error("Board is in the trash");
+    }
+
+    const error = getStatusChangeError(board, args.status, getTodayDate());
+    if (error) {
+      throw new Error(error);
+    }
+    if (args.status !== "draft") {
+      assertValidBoard(board);
+    }
+
+    await ctx.db.patch(args.boardId, { status: args.status });
+    return args.status;
+  },
+});
+
+// Publish scheduled boards whose day has come (run by cron). Player queries
+// already treat them as published, this only makes it stick.
+export const publishScheduledBoards = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const today = getTodayDate();
+    const scheduled = await ctx.db
+      .query("boards")
+      .withIndex("by_status", (q) => q.eq("status", "scheduled"))
+      .collect();
+
+    let published = 0;
+    for (const board of scheduled) {
+      if (board.date && board.date <= today && !board.deletedAt) {
+        await ctx.db.patch(board._id, { status: "published" });
+        published++;
+      }
+    }
+
+    return { published };
+  },
+});
+
+// Give boards from before statuses the status they have implicitly (run once)
+export const backfillBoardStatus = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const today = getTodayDate();
+    const boards = await ctx.db
+      .query("boards")
+      .withIndex("by_status", (q) => q.eq("status", undefined))
+      .collect();
+
+    for (const board of boards) {
+      await ctx.db.patch(board._id, { status: getBoardStatus(board, today) });
+    }
+
+    return { updated: boards.length };
+  },
+});
+
+// Give boards from before random keys existed a place in the pool (run once)
+export const backfillRandomKeys = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const boards = await ctx.db.query("boards").collect();
+    const unkeyed = boards.filter((board) => board.randomKey === undefined);
+    for (const board of unkeyed) {
+      await ctx.db.patch(board._id, { randomKey: Math.random() });
+    }
+    return { updated: unkeyed.length };
+  },
+});
+
+// The board another board would collide with on a day, for the editor
+export const getDateConflict = query({
+  args: {
+    adminToken: v.string(),
+    date: v.string(),
+    boardId: v.optional(v.id("boards")),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.adminToken);
+    const other = (await getBoardsOnDate(ctx, args.date)).find((b) => b._id !== args.boardId);
+    if (!other) {
+      return null;
+    }
+    return {
+      _id: other._id,
+      groupNames: other.groups.map((g) => g.name),
+      isPublished: hasBeenLive(other),
+    };
+  },
+});
+
+// Check a board without saving it, for tools that build boards outside the editor
+export const validateBoardForAdmin = query({
+  args: {
+    adminToken: v.string(),
+    words: v.optional(v.array(v.string())),
+    groups: v.array(groupValidator),
+    date: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<BoardValidation> => {
+    await requireAdmin(ctx, args.adminToken);
+    return validateBoard(args);
+  },
+});
+
+// Move a board to the trash. It stays out of every list and can't be played,
+// but games played on it are kept until it is purged.
 export const deleteBoard = mutation({
-  args: { boardId: v.id("boards") },
+  args: { adminToken: v.string(), boardId: v.id("boards") },
   handler: async (ctx, args) => {
-    await ctx.db.delete(args.boardId);
+    await requireAdmin(ctx, args.adminToken);
+    const board = await ctx.db.get(args.boardId);
+    if (!board) {
+      throw new Error("Board not found");
+    }
+    if (!board.deletedAt) {
+      await ctx.db.patch(args.boardId, { deletedAt: Date.now() });
+    }
     return { success: true };
   },
 });
 
+// Boards in the trash, most recently deleted first
+export const listDeletedBoards = query({
+  args: { adminToken: v.string() },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.adminToken);
+    const today = getTodayDate();
+    const boards = await ctx.db.query("boards").collect();
+    return boards
+      .filter((board) => board.deletedAt)
+      .sort((a, b) => b.deletedAt! - a.deletedAt!)
+      .map((board) => ({ ...board, status: getBoardStatus(board, today) }));
+  },
+});
+
+// How often a board was played, so admins know what deleting it affects
+export const getBoardPlayCount = query({
+  args: { adminToken: v.string(), boardId: v.id("boards") },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.adminToken);
+    const plays = await ctx.db
+      .query("gameHistory")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+    const inProgress = await ctx.db
+      .query("games")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+    return { plays: plays.length, inProgress: inProgress.length };
+  },
+});
+
+// Take a board out of the trash. If another board got its day in the
+// meantime, the restored board loses its date.
+export const restoreBoard = mutation({
+  args: { adminToken: v.string(), boardId: v.id("boards") },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.adminToken);
+    const board = await ctx.db.get(args.boardId);
+    if (!board) {
+      throw new Error("Board not found");
+    }
+    if (!board.deletedAt) {
+      throw new Error("Board is not in the trash");
+    }
+
+    const dateCleared = !!board.date && (await getBoardsOnDate(ctx, board.date)).length > 0;
+    await ctx.db.patch(args.boardId, {
+      deletedAt: undefined,
+      ...(dateCleared ? { date: undefined } : {}),
+    });
+    return { dateCleared };
+  },
+});
+
+// Delete a board from the trash for good, with its revisions, calibration and
+// unfinished games. Finished games are either deleted, after which the
+// players' stats are recomputed, or anonymized: the game still counts, but
+// nothing about the board's words is kept.
+export const purgeBoard = mutation({
+  args: {
+    adminToken: v.string(),
+    boardId: v.id("boards"),
+    history: v.union(v.literal("delete"), v.literal("anonymize")),
+  },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.adminToken);
+    const board = await ctx.db.get(args.boardId);
+    if (!board) {
+      throw new Error("Board not found");
+    }
+    if (!board.deletedAt) {
+      throw new Error("Only boards in the trash can be purged");
+    }
+
+    const openGames = await ctx.db
+      .query("games")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+    for (const game of openGames) {
+      await ctx.db.delete(game._id);
+    }
+
+    const history = await ctx.db
+      .query("gameHistory")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+    for (const game of history) {
+      if (args.history === "delete") {
+        await ctx.db.delete(game._id);
+      } else {
+        await ctx.db.patch(game._id, { selectedGroups: [], hints: [], groupSolveTimes: [] });
+      }
+    }
+
+    const calibration = await ctx.db
+      .query("boardCalibrations")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .first();
+    if (calibration) {
+      await ctx.db.delete(calibration._id);
+    }
+    await deleteRevisions(ctx, board);
+    await ctx.db.delete(args.boardId);
+
+    if (args.history === "delete") {
+      const userIds = new Set(history.map((game) => game.userId));
+      for (const userId of userIds) {
+        await rebuildUserStats(ctx, userId);
+      }
+    }
+
+    return { games: history.length };
+  },
+});
+
 
 // // Seed sample German boards
 // export const seedSampleBoards = mutation({
@@ -0,0 +1,140 @@
+import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { internalMutation, mutation, query } from "./_generated/server";
+import { requireAdmin } from "./auth";
+import { computeBoardStats, isUnguidedGame } from "./boardStats";
+import { saveRevision } from "./revisions";
+import { Difficulty } from "../utils/gameLogic";
+
+// Below this many games the numbers are too noisy to judge a board
+const MIN_CALIBRATION_PLAYS = 20;
+
+const DIFFICULTIES: Difficulty[] = ["easy", "medium", "hard", "very-hard"];
+
+// Empirical difficulty of a group, higher is harder: how often it was
+// missed, how late it was found and how often players were one word off
+function getDifficultyScore(
+  group: { solveRate: number; averagePosition: number | null; nearMisses: number },
+  plays: number
+): number {
+  const missed = 1 - group.solveRate / 100;
+  // Never found counts as found after the last group
+  const position = group.averagePosition ?? DIFFICULTIES.length + 1;
+  const lateness = (position - 1) / (DIFFICULTIES.length - 1);
+  const confusion = group.nearMisses / plays;
+  return Math.round((missed + lateness + confusion) * 1000) / 1000;
+}
+
+// Recompute the empirical difficulties of every board (run by cron). Each
+// board is calibrated in its own mutation, so a board with many games can't
+// push the whole run over the read limits.
+export const calibrateDifficulties = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const boards = await ctx.db.query("boards").collect();
+    const live = boards.filter((board) => !board.deletedAt);
+    for (const board of live) {
+      await ctx.scheduler.runAfter(0, internal.calibration.calibrateBoard, {
+        boardId: board._id,
+      });
+    }
+    return { scheduled: live.length };
+  },
+});
+
+// Recompute the empirical difficulties of one board, if it has enough plays
+export const calibrateBoard = internalMutation({
+  args: { boardId: v.id("boards") },
+  handler: async (ctx, args) => {
+    const board = await ctx.db.get(args.boardId);
+    if (!board || board.deletedAt) {
+      return { calibrated: false };
+    }
+    const stats = await computeBoardStats(ctx, board._id, isUnguidedGame);
+    if (stats.plays < MIN_CALIBRATION_PLAYS) {
+      return { calibrated: false };
+    }
+
+    // Rank by score; ties keep the assigned order so they are not flagged
+    const ranked = stats.solveOrder
+      .map((group) => ({
+        name: group.groupName,
+        assigned: group.difficulty,
+        score: getDifficultyScore(group, stats.plays),
+      }))
+      .sort(
+        (a, b) =>
+          a.score - b.score ||
+          DIFFICULTIES.indexOf(a.assigned) - DIFFICULTIES.indexOf(b.assigned)
+      );
+    const groups = ranked.map((group, index) => ({
+      ...group,
+      suggested: DIFFICULTIES[Math.min(index, DIFFICULTIES.length - 1)],
+    }));
+    const disagrees = groups.some((g) => g.suggested !== g.assigned);
+
+    const calibration = {
+      boardId: board._id,
+      plays: stats.plays,
+      groups,
+      disagrees,
+      computedAt: Date.now(),
+    };
+    const existing = await ctx.db
+      .query("boardCalibrations")
+      .withIndex("by_board", (q) => q.eq("boardId", board._id))
+      .first();
+    if (existing) {
+      await ctx.db.replace(existing._id, calibration);
+    } else {
+      await ctx.db.insert("boardCalibrations", calibration);
+    }
+
+    return { calibrated: true, disagrees };
+  },
+});
+
+// Get all calibrations for the admin board list
+export const listCalibrations = query({
+  args: { adminToken: v.string() },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.adminToken);
+    return await ctx.db.query("boardCalibrations").collect();
+  },
+});
+
+// Re-label a board's groups with the difficulties suggested by player data
+export const applyCalibration = mutation({
+  args: { adminToken: v.string(), boardId: v.id("boards") },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.adminToken);
+
+    const board = await ctx.db.get(args.boardId);
+    if (!board) {
+      throw new Error("Board not found");
+    }
+    const calibration = await ctx.db
+      .query("boardCalibrations")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .first();
+    if (!calibration) {
+      throw new Error("Board has not been calibrated");
+    }
+
+    // The suggestion only holds for the board as it was measured
+    const groups = board.groups.map((group) => {
+      const calibrated = calibration.groups.find((g) => g.name === group.name);
+      if (!calibrated || calibrated.assigned !== group.difficulty) {
+        throw new Error("Board changed since it was calibrated");
+      }
+      return { ...group, difficulty: calibrated.suggested };
+    });
+
+    await saveRevision(ctx, board, { words: board.words, groups });
+    await ctx.db.patch(calibration._id, {
+      groups: calibration.groups.map((g) => ({ ...g, assigned: g.suggested })),
+      disagrees: false,
+    });
+    return { success: true };
+  },
+});
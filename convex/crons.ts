@@ -0,0 +1,28 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Runs hourly so the board of the previous day joins the random pool right
+// after midnight, whatever offset the daily board's timezone has to UTC.
+// Moving a board twice is a no-op.
+crons.hourly("rotate past pool", { minuteUTC: 0 }, internal.boards.rotatePastPool);
+
+// Same schedule, so today's board has its number shortly after midnight
+crons.hourly("assign puzzle numbers", { minuteUTC: 0 }, internal.boards.assignPuzzleNumbers);
+
+// Scheduled boards are live on their day anyway, this records it
+crons.hourly(
+  "publish scheduled boards",
+  { minuteUTC: 0 },
+  internal.boards.publishScheduledBoards
+);
+
+// Player data changes slowly, once a night is plenty
+crons.daily(
+  "calibrate difficulties",
+  { hourUTC: 3, minuteUTC: 0 },
+  internal.calibration.calibrateDifficulties
+);
+
+export default crons;
@@ -1,44 +1,67 @@
-import { mutation, query } from "./_generated/server";
+import { query, MutationCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
 import { v } from "convex/values";
+import { getBoardAtRevision } from "./revisions";
+import { updateStatsForGame } from "./stats";
+import { GameMode, UsedHint } from "../utils/gameLogic";
 
-// Record a completed game
-export const recordGame = mutation({
+// Record a completed game. Only called from the server once it has
+// replayed every guess itself, never with client-reported results.
+export async function recordGame(
+  ctx: MutationCtx,
   args: {
-    userId: v.id("users"),
-    boardId: v.id("boards"),
-    won: v.boolean(),
-    attempts: v.number(),
-    selectedGroups: v.array(
-      v.object({
-        words: v.array(v.string()),
-        correct: v.boolean(),
-      })
-    ),
-  },
-  handler: async (ctx, args) => {
-    // Check if user already played this board
-    const existingGame = await ctx.db
-      .query("gameHistory")
-      .withIndex("by_user", (q) => q.eq("userId", args.userId))
-      .filter((q) => q.eq(q.field("boardId"), args.boardId))
-      .first();
+    userId: Id<"users">;
+    boardId: Id<"boards">;
+    won: boolean;
+    attempts: number;
+    selectedGroups: { words: string[]; correct: boolean; nearGroupName?: string }[];
+    hints: UsedHint[];
+    mode: GameMode;
+    durationMs?: number;
+    groupSolveTimes: number[];
+    boardRevision: number;
+    pausedMs: number;
+  }
+) {
+  // Check if user already played this board
+  const existingGame = await ctx.db
+    .query("gameHistory")
+    .withIndex("by_user", (q) => q.eq("userId", args.userId))
+    .filter((q) => q.eq(q.field("boardId"), args.boardId))
+    .first();
 
-    if (existingGame) {
-      throw new Error("Already played this board");
-    }
+  if (existingGame) {
+    throw new Error("Already played this board");
+  }
 
-    const historyId = await ctx.db.insert("gameHistory", {
-      userId: args.userId,
-      boardId: args.boardId,
-      playedAt: Date.now(),
-      won: args.won,
-      attempts: args.attempts,
-      selectedGroups: args.selectedGroups,
-    });
+  const game = {
+    playedAt: Date.now(),
+    won: args.won,
+    attempts: args.attempts,
+    selectedGroups: args.selectedGroups,
+    hints: args.hints,
+    mode: args.mode,
+    durationMs: args.durationMs,
+    groupSolveTimes: args.groupSolveTimes,
+    boardRevision: args.boardRevision,
+    pausedMs: args.pausedMs,
+  };
+  const historyId = await ctx.db.insert("gameHistory", {
+    userId: args.userId,
+    boardId: args.boardId,
+    ...game,
+  });
 
-    return historyId;
-  },
-});
+  const board = await ctx.db.get(args.boardId);
+  await updateStatsForGame(
+    ctx,
+    args.userId,
+    game,
+    board && (await getBoardAtRevision(ctx, board, args.boardRevision))
+  );
+
+  return historyId;
+}
 
 // Get user's game history with board details
 export const getUserHistory = query({
@@ -50,10 +73,15 @@ export const getUserHistory = query({
       .order("desc")
       .collect();
 
-    // Fetch board details for each game
+    // Fetch board details for each game, as the board was when it was played
     const historyWithBoards = await Promise.all(
       history.map(async (game) => {
-        const board = await ctx.db.get(game.boardId);
+        const current = await ctx.db.get(game.boardId);
+        // Boards in the trash are shown as deleted
+        const board =
+          current &&
+          !current.deletedAt &&
+          (await getBoardAtRevision(ctx, current, game.boardRevision));
         return {
           ...game,
           board: board
@@ -99,7 +127,11 @@ export const getGameResult = query({
       return null;
     }
 
-    const board = await ctx.db.get(args.boardId);
+    const current = await ctx.db.get(args.boardId);
+    const board =
+      current &&
+      !current.deletedAt &&
+      (await getBoardAtRevision(ctx, current, game.boardRevision));
 
     return {
       ...game,
@@ -107,6 +139,7 @@ export const getGameResult = query({
         ? {
             _id: board._id,
             date: board.date,
+            puzzleNumber: board.puzzleNumber,
             groups: board.groups,
           }
         : null,
@@ -0,0 +1,386 @@
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { mutation, MutationCtx, query } from "./_generated/server";
+import { requireUser } from "./auth";
+import { getPlayerWords, getTodayDate } from "./boards";
+import { recordGame } from "./gameHistory";
+import { getBoardAtRevision, getCurrentRevision } from "./revisions";
+import { gameModeValidator } from "./schema";
+import {
+  GAME_MODES,
+  GameProgress,
+  GameState,
+  Group,
+  GuessOutcome,
+  HintRefusal,
+  MAX_MISTAKES,
+  UsedHint,
+  WORDS_PER_GROUP,
+  applyHint,
+  expireGame,
+  getElapsedMs,
+  isTimeUp,
+  pauseClock,
+  processGuess,
+  resumeClock,
+} from "../utils/gameLogic";
+import { getBoardStatus } from "../utils/boardStatus";
+
+type StoredAttempt = Doc<"games">["attempts"][number];
+
+// A game's progress together with the board's words, which players only get
+// once the game has started
+type StartedGame = GameProgress & { words: string[] };
+
+// Build the progress of an in-progress game document
+function toProgress(game: Doc<"games">, groups: Group[]): GameProgress {
+  const solvedGroups = game.solvedGroupNames
+    .map((name) => groups.find((g) => g.name === name))
+    .filter((g): g is Group => g !== undefined);
+
+  return {
+    mode: game.mode ?? "classic",
+    startedAt: game.startedAt,
+    pausedAt: game.pausedAt,
+    pausedMs: game.pausedMs ?? 0,
+    groupSolveTimes: game.groupSolveTimes ?? [],
+    solvedGroups,
+    mistakesRemaining: game.mistakesRemaining,
+    isComplete: false,
+    won: false,
+    // Near misses stay on the server, they would give away a group
+    attempts: game.attempts.map(({ words, correct }) => ({ words, correct })),
+    hints: game.hints ?? [],
+  };
+}
+
+// Load the user's unfinished game for a board as a game state, failing if
+// the board has already been played. Any move the player makes ends a pause.
+async function loadOpenGame(ctx: MutationCtx, authToken: string, boardId: Id<"boards">) {
+  const user = await requireUser(ctx, authToken);
+  const currentBoard = await ctx.db.get(boardId);
+  if (!currentBoard || currentBoard.deletedAt) {
+    throw new Error("Board not found");
+  }
+
+  const alreadyPlayed = await ctx.db
+    .query("gameHistory")
+    .withIndex("by_user", (q) => q.eq("userId", user._id))
+    .filter((q) => q.eq(q.field("boardId"), boardId))
+    .first();
+  if (alreadyPlayed) {
+    throw new Error("Already played this board");
+  }
+
+  const game = await ctx.db
+    .query("games")
+    .withIndex("by_user_and_board", (q) => q.eq("userId", user._id).eq("boardId", boardId))
+    .first();
+  // Games already started may be finished after a board is retired
+  if (!game && getBoardStatus(currentBoard, getTodayDate()) !== "published") {
+    throw new Error("Board is not available");
+  }
+  // A running game keeps the revision it started on
+  const board = game
+    ? await getBoardAtRevision(ctx, currentBoard, game.boardRevision)
+    : currentBoard;
+
+  const progress: GameProgress = game
+    ? toProgress(game, board.groups)
+    : {
+        mode: "classic",
+        pausedMs: 0,
+        groupSolveTimes: [],
+        solvedGroups: [],
+        mistakesRemaining: MAX_MISTAKES,
+        isComplete: false,
+        won: false,
+        attempts: [],
+        hints: [],
+      };
+  const solvedWords = new Set(progress.solvedGroups.flatMap((g) => g.words));
+
+  const state = resumeClock({
+    mode: progress.mode,
+    startedAt: progress.startedAt,
+    pausedAt: progress.pausedAt,
+    pausedMs: progress.pausedMs,
+    groupSolveTimes: progress.groupSolveTimes,
+    remainingWords: board.words.filter((w) => !solvedWords.has(w)),
+    solvedGroups: progress.solvedGroups,
+    selectedWords: [],
+    mistakesRemaining: progress.mistakesRemaining,
+    isComplete: false,
+    won: false,
+    attempts: progress.attempts,
+    hints: progress.hints,
+  });
+
+  return { user, board, game, state };
+}
+
+// What the player gets to see of a game state
+function stateToProgress(state: GameState): GameProgress {
+  return {
+    mode: state.mode,
+    startedAt: state.startedAt,
+    pausedAt: state.pausedAt,
+    pausedMs: state.pausedMs,
+    groupSolveTimes: state.groupSolveTimes,
+    solvedGroups: state.solvedGroups,
+    mistakesRemaining: state.mistakesRemaining,
+    isComplete: state.isComplete,
+    won: state.won,
+    attempts: state.attempts,
+    hints: state.hints,
+  };
+}
+
+// A guess or hint needs a game started with startGame, which is where the
+// clock starts
+function requireStartedGame(game: Doc<"games"> | null): Doc<"games"> {
+  if (!game) {
+    throw new Error("Game has not started");
+  }
+  return game;
+}
+
+// Store a game state: a finished game moves to the history, an unfinished
+// one is kept in the games table
+async function saveGame(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  board: Doc<"boards">,
+  game: Doc<"games">,
+  state: GameState,
+  attempts: StoredAttempt[]
+) {
+  const now = Date.now();
+  if (state.isComplete) {
+    const boardId = board._id;
+    await recordGame(ctx, {
+      userId,
+      boardId,
+      won: state.won,
+      attempts: attempts.length,
+      selectedGroups: attempts,
+      hints: state.hints,
+      mode: state.mode,
+      durationMs: state.startedAt !== undefined ? getElapsedMs(state, now) : undefined,
+      groupSolveTimes: state.groupSolveTimes,
+      boardRevision: getCurrentRevision(board),
+      pausedMs: state.pausedMs,
+    });
+    await ctx.db.delete(game._id);
+  } else {
+    await ctx.db.patch(game._id, {
+      solvedGroupNames: state.solvedGroups.map((g) => g.name),
+      mistakesRemaining: state.mistakesRemaining,
+      attempts,
+      hints: state.hints,
+      pausedAt: state.pausedAt,
+      pausedMs: state.pausedMs,
+      groupSolveTimes: state.groupSolveTimes,
+      updatedAt: now,
+    });
+  }
+}
+
+// Get the user's in-progress game for a board, with the board's words
+export const getGame = query({
+  args: { authToken: v.string(), boardId: v.id("boards") },
+  handler: async (ctx, args): Promise<StartedGame | null> => {
+    const user = await requireUser(ctx, args.authToken);
+    const board = await ctx.db.get(args.boardId);
+    if (!board) {
+      return null;
+    }
+
+    const game = await ctx.db
+      .query("games")
+      .withIndex("by_user_and_board", (q) =>
+        q.eq("userId", user._id).eq("boardId", args.boardId)
+      )
+      .first();
+    if (!game) {
+      return null;
+    }
+
+    const pinned = await getBoardAtRevision(ctx, board, game.boardRevision);
+    return { ...toProgress(game, pinned.groups), words: getPlayerWords(pinned) };
+  },
+});
+
+// Submit a guess. The server replays it against the board's groups and is
+// the only place a game can be won or lost.
+export const submitGuess = mutation({
+  args: {
+    authToken: v.string(),
+    boardId: v.id("boards"),
+    words: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { user, board, game, state } = await loadOpenGame(ctx, args.authToken, args.boardId);
+    const started = requireStartedGame(game);
+
+    // The guess must be four distinct words that are still on the board
+    if (
+      args.words.length !== WORDS_PER_GROUP ||
+      new Set(args.words).size !== WORDS_PER_GROUP ||
+      args.words.some((w) => !state.remainingWords.includes(w))
+    ) {
+      throw new Error("Invalid guess");
+    }
+
+    const result = processGuess({ ...state, selectedWords: args.words }, board.groups);
+
+    // Repeated guesses cost nothing, so there is nothing to save
+    if (result.outcome !== "repeated") {
+      const attempts =
+        result.outcome === "time-up"
+          ? started.attempts
+          : [
+              ...started.attempts,
+              {
+                words: [...args.words],
+                correct: result.outcome === "correct",
+                ...(result.outcome === "one-away"
+                  ? { nearGroupName: result.nearGroup.name }
+                  : {}),
+              },
+            ];
+      await saveGame(ctx, user._id, board, started, result.state, attempts);
+    }
+
+    const response: GameProgress & { outcome: GuessOutcome } = {
+      ...stateToProgress(result.state),
+      outcome: result.outcome,
+    };
+    return response;
+  },
+});
+
+// Use a hint in the user's current game. Refusals are returned, not thrown.
+export const requestHint = mutation({
+  args: {
+    authToken: v.string(),
+    boardId: v.id("boards"),
+    type: v.union(
+      v.literal("reveal-word"),
+      v.literal("reveal-category"),
+      v.literal("check-pair")
+    ),
+    words: v.optional(v.array(v.string())),
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<
+    | (GameProgress & { ok: true; hint: UsedHint })
+    | { ok: false; reason: HintRefusal }
+  > => {
+    const { user, board, game, state } = await loadOpenGame(ctx, args.authToken, args.boardId);
+    const started = requireStartedGame(game);
+
+    const result = applyHint(state, board.groups, args.type, args.words);
+    if (!result.ok) {
+      return result;
+    }
+
+    await saveGame(ctx, user._id, board, started, result.state, started.attempts);
+
+    return { ok: true, hint: result.hint, ...stateToProgress(result.state) };
+  },
+});
+
+// Start a game in the chosen mode. This is the first time the player gets
+// the words, so the clock starts here. Once a game has started its mode is
+// fixed.
+export const startGame = mutation({
+  args: {
+    authToken: v.string(),
+    boardId: v.id("boards"),
+    mode: gameModeValidator,
+  },
+  handler: async (ctx, args): Promise<StartedGame> => {
+    const { user, board, game } = await loadOpenGame(ctx, args.authToken, args.boardId);
+    if (game) {
+      return { ...toProgress(game, board.groups), words: getPlayerWords(board) };
+    }
+
+    const now = Date.now();
+    const mistakesRemaining = GAME_MODES[args.mode].maxMistakes ?? MAX_MISTAKES;
+    await ctx.db.insert("games", {
+      userId: user._id,
+      boardId: args.boardId,
+      boardRevision: getCurrentRevision(board),
+      solvedGroupNames: [],
+      mistakesRemaining,
+      attempts: [],
+      hints: [],
+      mode: args.mode,
+      startedAt: now,
+      updatedAt: now,
+    });
+
+    return {
+      mode: args.mode,
+      startedAt: now,
+      pausedMs: 0,
+      groupSolveTimes: [],
+      solvedGroups: [],
+      mistakesRemaining,
+      isComplete: false,
+      won: false,
+      attempts: [],
+      hints: [],
+      words: getPlayerWords(board),
+    };
+  },
+});
+
+// End a timed game once its time is up. Called by the client when its timer
+// runs out; the server clock decides.
+export const expireTimedGame = mutation({
+  args: { authToken: v.string(), boardId: v.id("boards") },
+  handler: async (ctx, args): Promise<GameProgress> => {
+    const { user, board, game, state } = await loadOpenGame(ctx, args.authToken, args.boardId);
+    if (!game || !isTimeUp(state)) {
+      return stateToProgress(state);
+    }
+
+    const next = expireGame(state);
+    await saveGame(ctx, user._id, board, game, next, game.attempts);
+    return stateToProgress(next);
+  },
+});
+
+// Stop the clock while the app is in the background
+export const pauseGame = mutation({
+  args: { authToken: v.string(), boardId: v.id("boards") },
+  handler: async (ctx, args): Promise<GameProgress | null> => {
+    const { user, board, game, state } = await loadOpenGame(ctx, args.authToken, args.boardId);
+    if (!game) {
+      return null;
+    }
+
+    const next = pauseClock(state);
+    await saveGame(ctx, user._id, board, game, next, game.attempts);
+    return stateToProgress(next);
+  },
+});
+
+// Start the clock again when the app comes back to the foreground
+export const resumeGame = mutation({
+  args: { authToken: v.string(), boardId: v.id("boards") },
+  handler: async (ctx, args): Promise<GameProgress | null> => {
+    // Loading the game already ends the pause
+    const { user, board, game, state } = await loadOpenGame(ctx, args.authToken, args.boardId);
+    if (!game) {
+      return null;
+    }
+
+    await saveGame(ctx, user._id, board, game, state, game.attempts);
+    return stateToProgress(state);
+  },
+});
@@ -0,0 +1,56 @@
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { query } from "./_generated/server";
+import { GAME_MODES } from "../utils/gameLogic";
+
+const LEADERBOARD_SIZE = 10;
+
+type TimedGame = Doc<"gameHistory"> & { durationMs: number };
+
+function countMistakes(game: Doc<"gameHistory">): number {
+  return game.selectedGroups.filter((g) => !g.correct).length;
+}
+
+// Get a board's leaderboards: the fastest flawless solves, and the solves
+// with the fewest mistakes. Players stay anonymous; userId marks your own.
+export const getBoardLeaderboard = query({
+  args: { boardId: v.id("boards"), userId: v.optional(v.id("users")) },
+  handler: async (ctx, args) => {
+    const history = await ctx.db
+      .query("gameHistory")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+
+    // Only timed wins without hints or pauses in modes that count are
+    // compared. The words stay visible during a pause, so paused time can't
+    // be trusted.
+    const solves = history.filter(
+      (game): game is TimedGame =>
+        game.won &&
+        game.durationMs !== undefined &&
+        (game.hints ?? []).length === 0 &&
+        !game.pausedMs &&
+        GAME_MODES[game.mode ?? "classic"].countsTowardStats
+    );
+
+    const toEntry = (game: TimedGame, index: number) => ({
+      rank: index + 1,
+      durationMs: game.durationMs,
+      mistakes: countMistakes(game),
+      isCurrentUser: game.userId === args.userId,
+    });
+
+    const fastest = solves
+      .filter((game) => countMistakes(game) === 0)
+      .sort((a, b) => a.durationMs - b.durationMs)
+      .slice(0, LEADERBOARD_SIZE)
+      .map(toEntry);
+
+    const fewestMistakes = [...solves]
+      .sort((a, b) => countMistakes(a) - countMistakes(b) || a.durationMs - b.durationMs)
+      .slice(0, LEADERBOARD_SIZE)
+      .map(toEntry);
+
+    return { solves: solves.length, fastest, fewestMistakes };
+  },
+});
@@ -0,0 +1,69 @@
+"use node";
+
+import { appendFile } from "fs/promises";
+import { v } from "convex/values";
+import { internalAction } from "./_generated/server";
+
+interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+interface MailTransport {
+  send: (message: MailMessage) => Promise<void>;
+}
+
+// Available transports, selected with the MAIL_TRANSPORT environment variable.
+// Add an entry here to deliver mail through a real provider.
+const transports: Record<string, () => MailTransport> = {
+  // Prints mails to the Convex logs (default, for development)
+  console: () => ({
+    send: async (message) => {
+      console.log(`[mail] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+    },
+  }),
+
+  // Appends mails to MAIL_FILE_PATH (for a local Convex backend)
+  file: () => ({
+    send: async (message) => {
+      const path = process.env.MAIL_FILE_PATH ?? "mail.log";
+      const entry = [
+        `Date: ${new Date().toISOString()}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        "",
+        message.text,
+        "",
+        "",
+      ].join("\n");
+      await appendFile(path, entry, "utf-8");
+    },
+  }),
+};
+
+function getTransport(): MailTransport {
+  const name = process.env.MAIL_TRANSPORT ?? "console";
+  const createTransport = transports[name];
+
+  if (!createTransport) {
+    throw new Error(`Unknown mail transport: ${name}`);
+  }
+
+  return createTransport();
+}
+
+// Deliver a one-time login code
+export const sendLoginCode = internalAction({
+  args: { email: v.string(), code: v.string() },
+  handler: async (_ctx, args) => {
+    await getTransport().send({
+      to: args.email,
+      subject: `Dein Verbindungen-Code: ${args.code}`,
+      text:
+        `Dein Anmeldecode für Verbindungen lautet: ${args.code}\n\n` +
+        "Der Code ist 10 Minuten gültig. Wenn du dich nicht anmelden wolltest, " +
+        "kannst du diese E-Mail ignorieren.",
+    });
+  },
+});
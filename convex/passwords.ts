@@ -0,0 +1,89 @@
+// Password hashing for admin accounts. Uses PBKDF2 from Web Crypto, which is
+// only available in actions, so hashing and verifying must happen there.
+
+import { toHex } from "./tokens";
+
+const HASH_PREFIX = "pbkdf2";
+const HASH_ALGORITHM = "SHA-256";
+const ITERATIONS = 210000;
+const SALT_BYTES = 16;
+const KEY_BITS = 256;
+
+function fromHex(hex: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+// Compare without returning early, so timing does not leak the match length
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+async function deriveKey(
+  password: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number
+): Promise<string> {
+  const keyMaterial = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: HASH_ALGORITHM, salt, iterations },
+    keyMaterial,
+    KEY_BITS
+  );
+  return toHex(new Uint8Array(bits));
+}
+
+// The hash format used before PBKDF2. Only kept to verify old records so they
+// can be rehashed on the next login.
+function legacyHashPassword(password: string): string {
+  let hash = 0;
+  for (let i = 0; i < password.length; i++) {
+    const char = password.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash;
+  }
+  return hash.toString(16) + "_" + password.length + "_" + password.split("").reverse().join("");
+}
+
+// Hash a password as "pbkdf2$<iterations>$<salt>$<key>"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const key = await deriveKey(password, salt, ITERATIONS);
+  return [HASH_PREFIX, ITERATIONS, toHex(salt), key].join("$");
+}
+
+// Whether a stored hash should be replaced with a fresh one
+export function needsRehash(storedHash: string): boolean {
+  const [prefix, iterations] = storedHash.split("$");
+  return prefix !== HASH_PREFIX || Number(iterations) !== ITERATIONS;
+}
+
+export async function verifyPassword(
+  password: string,
+  storedHash: string
+): Promise<boolean> {
+  const [prefix, iterations, salt, key] = storedHash.split("$");
+
+  if (prefix !== HASH_PREFIX) {
+    return constantTimeEqual(legacyHashPassword(password), storedHash);
+  }
+
+  const derived = await deriveKey(password, fromHex(salt), Number(iterations));
+  return constantTimeEqual(derived, key);
+}
@@ -0,0 +1,155 @@
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import { mutation, MutationCtx, query, QueryCtx } from "./_generated/server";
+import { requireAdmin } from "./auth";
+import { assertValidBoard } from "../utils/boardValidation";
+
+type BoardContent = Pick<Doc<"boards">, "words" | "groups">;
+
+// The revision a board's current words and groups are. Boards that were never
+// edited since revisions exist are at revision 1.
+export function getCurrentRevision(board: Doc<"boards">): number {
+  return board.revision ?? 1;
+}
+
+function isSameContent(a: BoardContent, b: BoardContent): boolean {
+  return JSON.stringify([a.words, a.groups]) === JSON.stringify([b.words, b.groups]);
+}
+
+async function getRevision(ctx: QueryCtx, board: Doc<"boards">, revision: number) {
+  return await ctx.db
+    .query("boardRevisions")
+    .withIndex("by_board_and_revision", (q) =>
+      q.eq("boardId", board._id).eq("revision", revision)
+    )
+    .first();
+}
+
+// A board with the words and groups it had at a revision. Games from before
+// revisions were pinned count as revision 1.
+export async function getBoardAtRevision(
+  ctx: QueryCtx,
+  board: Doc<"boards">,
+  revision: number = 1
+): Promise<Doc<"boards">> {
+  if (revision === getCurrentRevision(board)) {
+    return board;
+  }
+  const snapshot = await getRevision(ctx, board, revision);
+  return snapshot
+    ? { ...board, words: snapshot.words, groups: snapshot.groups, revision }
+    : board;
+}
+
+// Replace a board's words and groups with a new revision. The content being
+// replaced is snapshotted first, so games played on it can still be shown.
+// Returns the board's revision afterwards.
+export async function saveRevision(
+  ctx: MutationCtx,
+  board: Doc<"boards">,
+  content: BoardContent
+): Promise<number> {
+  const current = getCurrentRevision(board);
+  if (isSameContent(board, content)) {
+    return current;
+  }
+
+  const now = Date.now();
+  if (!(await getRevision(ctx, board, current))) {
+    await ctx.db.insert("boardRevisions", {
+      boardId: board._id,
+      revision: current,
+      words: board.words,
+      groups: board.groups,
+      createdAt: board.createdAt,
+    });
+  }
+
+  const revision = current + 1;
+  await ctx.db.insert("boardRevisions", {
+    boardId: board._id,
+    revision,
+    words: content.words,
+    groups: content.groups,
+    createdAt: now,
+  });
+  await ctx.db.patch(board._id, { words: content.words, groups: content.groups, revision });
+  return revision;
+}
+
+// Remove the revisions of a deleted board
+export async function deleteRevisions(ctx: MutationCtx, board: Doc<"boards">) {
+  const revisions = await ctx.db
+    .query("boardRevisions")
+    .withIndex("by_board_and_revision", (q) => q.eq("boardId", board._id))
+    .collect();
+  for (const revision of revisions) {
+    await ctx.db.delete(revision._id);
+  }
+}
+
+// All revisions of a board, newest first, with how often each was played
+export const listRevisions = query({
+  args: { adminToken: v.string(), boardId: v.id("boards") },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.adminToken);
+    const board = await ctx.db.get(args.boardId);
+    if (!board) {
+      return null;
+    }
+
+    const snapshots = await ctx.db
+      .query("boardRevisions")
+      .withIndex("by_board_and_revision", (q) => q.eq("boardId", args.boardId))
+      .order("desc")
+      .collect();
+    const history = await ctx.db
+      .query("gameHistory")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+
+    const current = getCurrentRevision(board);
+    // A board that was never edited has no snapshot of its only revision
+    const revisions = snapshots.some((s) => s.revision === current)
+      ? snapshots
+      : [
+          {
+            revision: current,
+            words: board.words,
+            groups: board.groups,
+            createdAt: board.createdAt,
+          },
+          ...snapshots,
+        ];
+
+    return revisions.map((r) => ({
+      revision: r.revision,
+      words: r.words,
+      groups: r.groups,
+      createdAt: r.createdAt,
+      isCurrent: r.revision === current,
+      plays: history.filter((game) => (game.boardRevision ?? 1) === r.revision).length,
+    }));
+  },
+});
+
+// Go back to the words and groups of an earlier revision. This adds a new
+// revision, history is never rewritten.
+export const rollbackBoard = mutation({
+  args: { adminToken: v.string(), boardId: v.id("boards"), revision: v.number() },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.adminToken);
+    const board = await ctx.db.get(args.boardId);
+    if (!board) {
+      throw new Error("Board not found");
+    }
+
+    const snapshot = await getRevision(ctx, board, args.revision);
+    if (!snapshot) {
+      throw new Error("Revision not found");
+    }
+    assertValidBoard(snapshot);
+
+    return await saveRevision(ctx, board, { words: snapshot.words, groups: snapshot.groups });
+  },
+});
@@ -0,0 +1,59 @@
+import { v } from "convex/values";
+import { query } from "./_generated/server";
+import { requireAdmin } from "./auth";
+import { getTodayDate } from "./boards";
+import { getBoardStatus } from "../utils/boardStatus";
+
+const DEFAULT_DAYS = 60;
+const MAX_DAYS = 366;
+
+// The day (YYYY-MM-DD) a number of days after the given one
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+// The daily boards of the coming days, starting today, for planning. Days
+// without a scheduled or published board are listed in emptyDays, even if a
+// draft is waiting for them; days with more than one board are conflicts left
+// over from before dates were unique.
+export const getSchedule = query({
+  args: { adminToken: v.string(), days: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    await requireAdmin(ctx, args.adminToken);
+
+    const dayCount = Math.min(Math.max(1, Math.floor(args.days ?? DEFAULT_DAYS)), MAX_DAYS);
+    const start = getTodayDate();
+    const end = addDays(start, dayCount - 1);
+
+    const boards = await ctx.db
+      .query("boards")
+      .withIndex("by_date", (q) => q.gte("date", start).lte("date", end))
+      .collect();
+
+    const days = Array.from({ length: dayCount }, (_, i) => {
+      const date = addDays(start, i);
+      return {
+        date,
+        boards: boards
+          .filter((b) => b.date === date && !b.deletedAt)
+          .map((b) => ({
+            _id: b._id,
+            groupNames: b.groups.map((g) => g.name),
+            puzzleNumber: b.puzzleNumber,
+            status: getBoardStatus(b, start),
+          })),
+      };
+    });
+
+    return {
+      days,
+      emptyDays: days
+        .filter(
+          (d) => !d.boards.some((b) => b.status === "scheduled" || b.status === "published")
+        )
+        .map((d) => d.date),
+      conflictDays: days.filter((d) => d.boards.length > 1).map((d) => d.date),
+    };
+  },
+});
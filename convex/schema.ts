@@ -1,36 +1,122 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+export const difficultyValidator = v.union(
+  v.literal("easy"),
+  v.literal("medium"),
+  v.literal("hard"),
+  v.literal("very-hard")
+);
+
+// One group of a board
+export const groupValidator = v.object({
+  name: v.string(),
+  words: v.array(v.string()),
+  difficulty: difficultyValidator,
+});
+
+// Matches BoardStatus in utils/boardStatus.ts
+export const boardStatusValidator = v.union(
+  v.literal("draft"),
+  v.literal("review"),
+  v.literal("scheduled"),
+  v.literal("published"),
+  v.literal("retired")
+);
+
+// A hint a player used, matching UsedHint in utils/gameLogic.ts
+export const usedHintValidator = v.union(
+  v.object({
+    type: v.literal("reveal-word"),
+    word: v.string(),
+    difficulty: difficultyValidator,
+  }),
+  v.object({
+    type: v.literal("reveal-category"),
+    groupName: v.string(),
+    difficulty: difficultyValidator,
+  }),
+  v.object({
+    type: v.literal("check-pair"),
+    words: v.array(v.string()),
+    sameGroup: v.boolean(),
+  })
+);
+
+// Matches GameMode in utils/gameLogic.ts; games without a mode are classic
+export const gameModeValidator = v.union(
+  v.literal("classic"),
+  v.literal("zen"),
+  v.literal("hard"),
+  v.literal("timed")
+);
+
 export default defineSchema({
   boards: defineTable({
     words: v.array(v.string()),
-    groups: v.array(
-      v.object({
-        name: v.string(),
-        words: v.array(v.string()),
-        difficulty: v.union(
-          v.literal("easy"),
-          v.literal("medium"),
-          v.literal("hard"),
-          v.literal("very-hard")
-        ),
-      })
-    ),
+    groups: v.array(groupValidator),
     date: v.optional(v.string()),
+    // Sequential "Verbindungen #n", assigned once a dated board goes live
+    puzzleNumber: v.optional(v.number()),
     isPastPool: v.boolean(),
+    // Missing on boards from before statuses, see getBoardStatus
+    status: v.optional(boardStatusValidator),
+    // Number of the current revision of words and groups; missing means 1
+    revision: v.optional(v.number()),
+    // Set while the board is in the trash
+    deletedAt: v.optional(v.number()),
+    // Position in the random pool, uniform in [0, 1)
+    randomKey: v.optional(v.number()),
     createdAt: v.number(),
   })
     .index("by_date", ["date"])
-    .index("by_past_pool", ["isPastPool"]),
+    .index("by_puzzle_number", ["puzzleNumber"])
+    .index("by_past_pool", ["isPastPool"])
+    .index("by_past_pool_and_random_key", ["isPastPool", "randomKey"])
+    .index("by_status", ["status"]),
+
+  // Immutable snapshots of a board's words and groups, see revisions.ts
+  boardRevisions: defineTable({
+    boardId: v.id("boards"),
+    revision: v.number(),
+    words: v.array(v.string()),
+    groups: v.array(groupValidator),
+    createdAt: v.number(),
+  }).index("by_board_and_revision", ["boardId", "revision"]),
 
   users: defineTable({
-    authToken: v.string(),
+    // Legacy plaintext token, moved into userSessions by migrateLegacyTokens
+    authToken: v.optional(v.string()),
     email: v.optional(v.string()),
     createdAt: v.number(),
   })
     .index("by_auth_token", ["authToken"])
     .index("by_email", ["email"]),
 
+  // One signed-in device per row; only a SHA-256 hash of the token is stored
+  userSessions: defineTable({
+    userId: v.id("users"),
+    tokenHash: v.string(),
+    deviceLabel: v.string(),
+    createdAt: v.number(),
+    lastSeenAt: v.number(),
+    tokenIssuedAt: v.number(),
+    // The token before the last rotation, valid until the new one is used, so
+    // a device that missed the new token isn't signed out
+    previousTokenHash: v.optional(v.string()),
+  })
+    .index("by_token_hash", ["tokenHash"])
+    .index("by_previous_token_hash", ["previousTokenHash"])
+    .index("by_user", ["userId"]),
+
+  loginCodes: defineTable({
+    email: v.string(),
+    code: v.string(),
+    attempts: v.number(),
+    createdAt: v.number(),
+    expiresAt: v.number(),
+  }).index("by_email", ["email"]),
+
   gameHistory: defineTable({
     userId: v.id("users"),
     boardId: v.id("boards"),
@@ -41,18 +127,103 @@ export default defineSchema({
       v.object({
         words: v.array(v.string()),
         correct: v.boolean(),
+        // For analysis: the group a one-away guess belonged to
+        nearGroupName: v.optional(v.string()),
       })
     ),
+    hints: v.optional(v.array(usedHintValidator)),
+    mode: v.optional(gameModeValidator),
+    // Playing time in ms, without pauses; missing for games from before timing
+    durationMs: v.optional(v.number()),
+    groupSolveTimes: v.optional(v.array(v.number())),
+    // The board revision that was played; missing means revision 1
+    boardRevision: v.optional(v.number()),
+    // Time the game spent paused; paused games don't go on the leaderboard
+    pausedMs: v.optional(v.number()),
   })
     .index("by_user", ["userId"])
     .index("by_board", ["boardId"])
     .index("by_user_and_played_at", ["userId", "playedAt"]),
 
+  // Running totals per user, kept up to date by recordGame
+  userStats: defineTable({
+    userId: v.id("users"),
+    gamesPlayed: v.number(),
+    gamesWon: v.number(),
+    totalAttempts: v.number(),
+    // Number of games finished with 0, 1, 2, 3 and 4 mistakes
+    mistakeCounts: v.array(v.number()),
+    // Number of games in which the group of each difficulty was found
+    solvedByDifficulty: v.object({
+      easy: v.number(),
+      medium: v.number(),
+      hard: v.number(),
+      veryHard: v.number(),
+    }),
+    // Daily boards won on their own day, in a row
+    currentStreak: v.number(),
+    maxStreak: v.number(),
+    lastStreakDate: v.optional(v.string()),
+  }).index("by_user", ["userId"]),
+
+  // Group difficulties as measured from player data, see calibration.ts
+  boardCalibrations: defineTable({
+    boardId: v.id("boards"),
+    plays: v.number(),
+    groups: v.array(
+      v.object({
+        name: v.string(),
+        assigned: difficultyValidator,
+        suggested: difficultyValidator,
+        // Higher is harder
+        score: v.number(),
+      })
+    ),
+    // Whether any suggested difficulty differs from the assigned one
+    disagrees: v.boolean(),
+    computedAt: v.number(),
+  }).index("by_board", ["boardId"]),
+
+  games: defineTable({
+    userId: v.id("users"),
+    boardId: v.id("boards"),
+    solvedGroupNames: v.array(v.string()),
+    mistakesRemaining: v.number(),
+    attempts: v.array(
+      v.object({
+        words: v.array(v.string()),
+        correct: v.boolean(),
+        // For analysis: the group a one-away guess belonged to
+        nearGroupName: v.optional(v.string()),
+      })
+    ),
+    hints: v.optional(v.array(usedHintValidator)),
+    mode: v.optional(gameModeValidator),
+    startedAt: v.number(),
+    pausedAt: v.optional(v.number()),
+    pausedMs: v.optional(v.number()),
+    groupSolveTimes: v.optional(v.array(v.number())),
+    // Pinned when the game starts, so edits don't change a running game
+    boardRevision: v.optional(v.number()),
+    updatedAt: v.number(),
+  })
+    .index("by_user_and_board", ["userId", "boardId"])
+    .index("by_board", ["boardId"]),
+
   admins: defineTable({
     email: v.string(),
     passwordHash: v.string(),
     createdAt: v.number(),
   }).index("by_email", ["email"]),
+
+  adminSessions: defineTable({
+    adminId: v.id("admins"),
+    token: v.string(),
+    createdAt: v.number(),
+    expiresAt: v.number(),
+  })
+    .index("by_token", ["token"])
+    .index("by_admin", ["adminId"]),
 });
 
 
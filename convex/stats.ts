@@ -0,0 +1,191 @@
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { internalMutation, MutationCtx, query } from "./_generated/server";
+import { getTodayDate } from "./boards";
+import { getBoardAtRevision } from "./revisions";
+import { Difficulty, GAME_MODES, MAX_MISTAKES } from "../utils/gameLogic";
+
+type StatsFields = Omit<Doc<"userStats">, "_id" | "_creationTime" | "userId">;
+type StatsGame = Pick<
+  Doc<"gameHistory">,
+  "won" | "attempts" | "selectedGroups" | "playedAt" | "mode"
+>;
+
+const DIFFICULTY_KEYS: Record<Difficulty, keyof StatsFields["solvedByDifficulty"]> = {
+  easy: "easy",
+  medium: "medium",
+  hard: "hard",
+  "very-hard": "veryHard",
+};
+
+function emptyStats(): StatsFields {
+  return {
+    gamesPlayed: 0,
+    gamesWon: 0,
+    totalAttempts: 0,
+    mistakeCounts: Array(MAX_MISTAKES + 1).fill(0),
+    solvedByDifficulty: { easy: 0, medium: 0, hard: 0, veryHard: 0 },
+    currentStreak: 0,
+    maxStreak: 0,
+  };
+}
+
+// The day before a YYYY-MM-DD date
+function getPreviousDay(date: string): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day - 1)).toISOString().slice(0, 10);
+}
+
+// Add one finished game to a user's stats
+function addGame(
+  stats: StatsFields,
+  game: StatsGame,
+  board: Doc<"boards"> | null
+): StatsFields {
+  // Zen games are just for practice
+  if (!GAME_MODES[game.mode ?? "classic"].countsTowardStats) {
+    return stats;
+  }
+
+  const mistakes = Math.min(
+    game.selectedGroups.filter((g) => !g.correct).length,
+    MAX_MISTAKES
+  );
+  const mistakeCounts = [...stats.mistakeCounts];
+  mistakeCounts[mistakes]++;
+
+  const solvedByDifficulty = { ...stats.solvedByDifficulty };
+  for (const group of board?.groups ?? []) {
+    const found = game.selectedGroups.some(
+      (guess) => guess.correct && group.words.every((word) => guess.words.includes(word))
+    );
+    if (found) {
+      solvedByDifficulty[DIFFICULTY_KEYS[group.difficulty]]++;
+    }
+  }
+
+  // Only the daily board, played on its own day, counts towards the streak
+  let { currentStreak, maxStreak, lastStreakDate } = stats;
+  const playedOn = getTodayDate(new Date(game.playedAt));
+  if (board?.date === playedOn) {
+    if (!game.won) {
+      currentStreak = 0;
+    } else if (lastStreakDate !== playedOn) {
+      currentStreak = lastStreakDate === getPreviousDay(playedOn) ? currentStreak + 1 : 1;
+      lastStreakDate = playedOn;
+    }
+    maxStreak = Math.max(maxStreak, currentStreak);
+  }
+
+  return {
+    gamesPlayed: stats.gamesPlayed + 1,
+    gamesWon: stats.gamesWon + (game.won ? 1 : 0),
+    totalAttempts: stats.totalAttempts + game.attempts,
+    mistakeCounts,
+    solvedByDifficulty,
+    currentStreak,
+    maxStreak,
+    lastStreakDate,
+  };
+}
+
+// Update a user's stats after a game was recorded
+export async function updateStatsForGame(
+  ctx: MutationCtx,
+  userId: Id<"users">,
+  game: StatsGame,
+  board: Doc<"boards"> | null
+) {
+  const existing = await ctx.db
+    .query("userStats")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .first();
+
+  const stats = addGame(existing ?? emptyStats(), game, board);
+  if (existing) {
+    await ctx.db.patch(existing._id, stats);
+  } else {
+    await ctx.db.insert("userStats", { userId, ...stats });
+  }
+}
+
+// Recompute a user's stats from their whole history, e.g. after games were
+// moved between accounts
+export async function rebuildUserStats(ctx: MutationCtx, userId: Id<"users">) {
+  const history = await ctx.db
+    .query("gameHistory")
+    .withIndex("by_user_and_played_at", (q) => q.eq("userId", userId))
+    .order("asc")
+    .collect();
+
+  let stats = emptyStats();
+  for (const game of history) {
+    const board = await ctx.db.get(game.boardId);
+    stats = addGame(
+      stats,
+      game,
+      board && (await getBoardAtRevision(ctx, board, game.boardRevision))
+    );
+  }
+
+  const existing = await ctx.db
+    .query("userStats")
+    .withIndex("by_user", (q) => q.eq("userId", userId))
+    .first();
+  if (existing) {
+    await ctx.db.replace(existing._id, { userId, ...stats });
+  } else if (history.length > 0) {
+    await ctx.db.insert("userStats", { userId, ...stats });
+  }
+}
+
+// Get a user's statistics for the history tab
+export const getUserStats = query({
+  args: { userId: v.id("users") },
+  handler: async (ctx, args) => {
+    const stats =
+      (await ctx.db
+        .query("userStats")
+        .withIndex("by_user", (q) => q.eq("userId", args.userId))
+        .first()) ?? emptyStats();
+
+    // The streak is broken once a day's board was missed
+    const today = getTodayDate();
+    const streakAlive =
+      stats.lastStreakDate === today || stats.lastStreakDate === getPreviousDay(today);
+
+    const rate = (count: number) =>
+      stats.gamesPlayed > 0 ? Math.round((count / stats.gamesPlayed) * 100) : 0;
+
+    return {
+      gamesPlayed: stats.gamesPlayed,
+      gamesWon: stats.gamesWon,
+      winRate: rate(stats.gamesWon),
+      currentStreak: streakAlive ? stats.currentStreak : 0,
+      maxStreak: stats.maxStreak,
+      mistakeDistribution: stats.mistakeCounts,
+      solveRates: {
+        easy: rate(stats.solvedByDifficulty.easy),
+        medium: rate(stats.solvedByDifficulty.medium),
+        hard: rate(stats.solvedByDifficulty.hard),
+        "very-hard": rate(stats.solvedByDifficulty.veryHard),
+      },
+      averageAttempts:
+        stats.gamesPlayed > 0
+          ? Math.round((stats.totalAttempts / stats.gamesPlayed) * 10) / 10
+          : 0,
+    };
+  },
+});
+
+// Build stats for every user from their history (run once after deploying)
+export const backfillUserStats = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const users = await ctx.db.query("users").collect();
+    for (const user of users) {
+      await rebuildUserStats(ctx, user._id);
+    }
+    return { users: users.length };
+  },
+});
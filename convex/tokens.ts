@@ -0,0 +1,16 @@
+// Random tokens and their hashes. Auth tokens are never stored in plaintext;
+// the database only keeps their SHA-256 hash.
+
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Generate a random auth token from a CSPRNG
+export function generateToken(): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return toHex(new Uint8Array(digest));
+}
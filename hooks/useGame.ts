@@ -1,4 +1,5 @@
 import { useState, useCallback, useEffect, useRef } from "react";
+import { AppState } from "react-native";
 import { useMutation, useQuery } from "convex/react";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { api } from "@/convex/_generated/api";
@@ -11,36 +12,63 @@ import {
   toggleWordSelection,
   clearSelection,
   shuffleRemainingWords,
-  checkGroup,
+  applyProgress,
+  applyHint,
+  expireGame,
+  GAME_MODES,
+  getElapsedMs,
+  pauseClock,
+  resumeClock,
+  GameMode,
+  GuessOutcome,
+  HintRefusal,
+  HintType,
+  UsedHint,
+  MAX_MISTAKES,
   WORDS_PER_GROUP,
 } from "@/utils/gameLogic";
+import { useAdmin } from "@/contexts/AdminContext";
 import { useUser } from "@/contexts/UserContext";
+import { usePuzzleDate } from "@/hooks/usePuzzleDate";
 
 const GAME_STATE_PREFIX = "verbindungen_game_";
 
 interface Board {
   _id: Id<"boards">;
   words: string[];
-  groups: Group[];
   date?: string;
-  isPastPool: boolean;
-  createdAt: number;
+  puzzleNumber?: number;
 }
 
 interface UseGameResult {
   gameState: GameState | null;
   board: Board | null;
+  // Groups the player may see: solved ones, or all of them once the game is over
+  groups: Group[];
   isLoading: boolean;
   hasPlayed: boolean;
   previousResult: {
     won: boolean;
     attempts: number;
     selectedGroups: { words: string[]; correct: boolean }[];
+    groups: Group[];
+    hints: UsedHint[];
+    mode: GameMode;
   } | null;
+  // Playing time so far, null before the game has started
+  elapsedMs: number | null;
+  // Time left in a timed game, null in other modes
+  timeLeftMs: number | null;
   selectWord: (word: string) => void;
-  submitGuess: () => { success: boolean; isClose: boolean };
+  submitGuess: () => Promise<GuessOutcome>;
+  // Pair checks use the two selected words
+  requestHint: (
+    type: HintType
+  ) => Promise<{ ok: true; hint: UsedHint } | { ok: false; reason: HintRefusal }>;
   deselectAll: () => void;
   shuffle: () => void;
+  // Starts the clock; the mode can't be changed afterwards
+  startGame: (mode: GameMode) => Promise<void>;
 }
 
 // Helper to get storage key for a board
@@ -80,16 +108,25 @@ async function clearGameState(boardId: string): Promise<void> {
 }
 
 export function useGame(boardId: Id<"boards"> | null, testMode: boolean = false): UseGameResult {
-  const { userId } = useUser();
+  const { userId, authToken } = useUser();
+  const { adminToken } = useAdmin();
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [isLoadingState, setIsLoadingState] = useState(true);
   const initialized = useRef(false);
 
-  const board = useQuery(
+  const playerBoard = useQuery(
     api.boards.getBoard,
-    boardId ? { boardId } : "skip"
+    boardId && !testMode ? { boardId } : "skip"
   );
 
+  // Test play needs the solution, which only admins may load
+  const adminBoard = useQuery(
+    api.boards.getBoardForAdmin,
+    boardId && testMode && adminToken ? { adminToken, boardId } : "skip"
+  );
+
+  const board = testMode ? adminBoard : playerBoard;
+
   const hasPlayedQuery = useQuery(
     api.gameHistory.hasPlayedBoard,
     boardId && userId ? { userId, boardId } : "skip"
@@ -100,14 +137,26 @@ export function useGame(boardId: Id<"boards"> | null, testMode: boolean = false)
     boardId && userId ? { userId, boardId } : "skip"
   );
 
-  const recordGame = useMutation(api.gameHistory.recordGame);
+  const serverGame = useQuery(
+    api.games.getGame,
+    boardId && authToken && !testMode ? { authToken, boardId } : "skip"
+  );
+
+  const submitGuessMutation = useMutation(api.games.submitGuess);
+  const requestHintMutation = useMutation(api.games.requestHint);
+  const startGameMutation = useMutation(api.games.startGame);
+  const expireTimedGameMutation = useMutation(api.games.expireTimedGame);
+  const pauseGameMutation = useMutation(api.games.pauseGame);
+  const resumeGameMutation = useMutation(api.games.resumeGame);
+  const [now, setNow] = useState(() => Date.now());
+  const expiring = useRef(false);
 
   // Initialize game state when board loads - check for saved state first
   useEffect(() => {
     if (!board) return;
     
     // In test mode, skip checking hasPlayedQuery
-    if (!testMode && hasPlayedQuery === undefined) return;
+    if (!testMode && (hasPlayedQuery === undefined || serverGame === undefined)) return;
     if (!testMode && hasPlayedQuery) {
       setIsLoadingState(false);
       return;
@@ -123,22 +172,25 @@ export function useGame(boardId: Id<"boards"> | null, testMode: boolean = false)
         // In test mode, always create a fresh game state
         setGameState(createGameState(board as Board));
       } else {
-        // Try to load saved state
+        // The server owns the progress; the saved state only keeps the word order
         const savedState = await loadGameState(board!._id);
-        
-        if (savedState && !savedState.isComplete) {
-          // Restore saved state
-          setGameState(savedState);
+
+        if (serverGame) {
+          const baseState =
+            savedState && !savedState.isComplete && savedState.remainingWords.length > 0
+              ? savedState
+              : createGameState({ ...board!, words: serverGame.words });
+          setGameState(applyProgress(baseState, serverGame));
         } else {
-          // Create new game
-          setGameState(createGameState(board as Board));
+          // Not started yet: the words come with startGame
+          setGameState(createGameState({ ...board!, words: [] }));
         }
       }
       setIsLoadingState(false);
     }
 
     initializeGame();
-  }, [board, hasPlayedQuery, testMode]);
+  }, [board, hasPlayedQuery, serverGame, testMode]);
 
   // Reset initialized ref when board changes
   useEffect(() => {
@@ -169,34 +221,148 @@ export function useGame(boardId: Id<"boards"> | null, testMode: boolean = false)
     });
   }, []);
 
-  const submitGuess = useCallback((): { success: boolean; isClose: boolean } => {
+  const submitGuess = useCallback(async (): Promise<GuessOutcome> => {
     if (!gameState || !board || gameState.selectedWords.length !== WORDS_PER_GROUP) {
-      return { success: false, isClose: false };
+      return "incomplete";
+    }
+
+    // In test mode the admin has the solution, so check locally
+    if (testMode) {
+      if (!adminBoard) {
+        return "incomplete";
+      }
+      const result = processGuess(gameState, adminBoard.groups as Group[]);
+      setGameState(result.state);
+      return result.outcome;
     }
 
-    // Check if guess is close before processing
-    const solvedGroupNames = new Set(gameState.solvedGroups.map((g) => g.name));
-    const unsolvedGroups = (board.groups as Group[]).filter(
-      (g) => !solvedGroupNames.has(g.name)
-    );
-    const { match, isClose } = checkGroup(gameState.selectedWords, unsolvedGroups);
-
-    const newState = processGuess(gameState, board.groups as Group[]);
-    setGameState(newState);
-
-    // Save game when complete (skip in test mode)
-    if (newState.isComplete && userId && !testMode) {
-      recordGame({
-        userId,
-        boardId: board._id,
-        won: newState.won,
-        attempts: newState.attempts.length,
-        selectedGroups: newState.attempts,
-      }).catch(console.error);
+    if (!authToken) {
+      return "incomplete";
     }
 
-    return { success: match !== null, isClose };
-  }, [gameState, board, userId, recordGame]);
+    // The server checks the guess and records the game once it is complete
+    const result = await submitGuessMutation({
+      authToken,
+      boardId: board._id,
+      words: gameState.selectedWords,
+    });
+    setGameState((current) => current && applyProgress(current, result));
+
+    return result.outcome;
+  }, [gameState, board, adminBoard, authToken, testMode, submitGuessMutation]);
+
+  const requestHint = useCallback(
+    async (type: HintType) => {
+      if (!gameState || !board) {
+        return { ok: false as const, reason: "game-over" as const };
+      }
+      const words = type === "check-pair" ? gameState.selectedWords : undefined;
+
+      if (testMode) {
+        if (!adminBoard) {
+          return { ok: false as const, reason: "game-over" as const };
+        }
+        const result = applyHint(gameState, adminBoard.groups as Group[], type, words);
+        if (!result.ok) return result;
+        setGameState(result.state);
+        return { ok: true as const, hint: result.hint };
+      }
+
+      if (!authToken) {
+        return { ok: false as const, reason: "game-over" as const };
+      }
+
+      const result = await requestHintMutation({ authToken, boardId: board._id, type, words });
+      if (!result.ok) return result;
+      setGameState((current) => current && applyProgress(current, result));
+      return { ok: true as const, hint: result.hint };
+    },
+    [gameState, board, adminBoard, authToken, testMode, requestHintMutation]
+  );
+
+  const startGame = useCallback(
+    async (mode: GameMode) => {
+      if (!gameState || !board || gameState.startedAt !== undefined) return;
+
+      if (testMode) {
+        setGameState((current) =>
+          current && {
+            ...current,
+            mode,
+            startedAt: Date.now(),
+            mistakesRemaining: GAME_MODES[mode].maxMistakes ?? MAX_MISTAKES,
+          }
+        );
+        return;
+      }
+
+      if (!authToken) return;
+
+      const result = await startGameMutation({ authToken, boardId: board._id, mode });
+      setGameState(applyProgress(createGameState({ ...board, words: result.words }), result));
+    },
+    [gameState, board, authToken, testMode, startGameMutation]
+  );
+
+  const isStarted = gameState?.startedAt !== undefined;
+  const isComplete = gameState?.isComplete ?? false;
+  const isClockRunning = isStarted && !isComplete && gameState?.pausedAt === undefined;
+  const elapsedMs = gameState && isStarted ? getElapsedMs(gameState, now) : null;
+  const timeLimitMs = gameState ? GAME_MODES[gameState.mode].timeLimitMs : null;
+  const timeLeftMs =
+    timeLimitMs !== null && elapsedMs !== null ? Math.max(0, timeLimitMs - elapsedMs) : null;
+
+  // Tick once a second while the clock is running
+  useEffect(() => {
+    if (!isClockRunning) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isClockRunning]);
+
+  // Stop the clock while the app is in the background
+  useEffect(() => {
+    if (!board || !isStarted || isComplete) return;
+
+    const subscription = AppState.addEventListener("change", (appState) => {
+      const active = appState === "active";
+      if (testMode) {
+        setGameState((current) => current && (active ? resumeClock(current) : pauseClock(current)));
+        return;
+      }
+      if (!authToken) return;
+
+      const mutation = active ? resumeGameMutation : pauseGameMutation;
+      mutation({ authToken, boardId: board._id })
+        .then((result) => {
+          if (result) {
+            setGameState((current) => current && applyProgress(current, result));
+          }
+        })
+        .catch((error) => console.error("Failed to pause or resume game:", error));
+    });
+    return () => subscription.remove();
+  }, [board, isStarted, isComplete, authToken, testMode, pauseGameMutation, resumeGameMutation]);
+
+  // End the game when the time runs out. The server has the final say and
+  // is asked again on the next tick if its clock is behind.
+  useEffect(() => {
+    if (!isClockRunning || timeLeftMs !== 0 || !board) return;
+
+    if (testMode) {
+      setGameState((current) => current && expireGame(current));
+      return;
+    }
+
+    if (!authToken || expiring.current) return;
+    expiring.current = true;
+    expireTimedGameMutation({ authToken, boardId: board._id })
+      .then((result) => setGameState((current) => current && applyProgress(current, result)))
+      .catch((error) => console.error("Failed to end timed game:", error))
+      .finally(() => {
+        expiring.current = false;
+      });
+  }, [isClockRunning, timeLeftMs, now, board, authToken, testMode, expireTimedGameMutation]);
 
   const deselectAll = useCallback(() => {
     setGameState((current) => {
@@ -212,29 +378,47 @@ export function useGame(boardId: Id<"boards"> | null, testMode: boolean = false)
     });
   }, []);
 
+  const groups: Group[] = testMode
+    ? ((adminBoard?.groups as Group[] | undefined) ?? [])
+    : ((previousResultQuery?.board?.groups as Group[] | undefined) ??
+      gameState?.solvedGroups ??
+      []);
+
   return {
     gameState,
     board: board as Board | null,
-    isLoading: board === undefined || (!testMode && hasPlayedQuery === undefined) || isLoadingState,
+    groups,
+    isLoading:
+      board === undefined ||
+      (!testMode && (hasPlayedQuery === undefined || serverGame === undefined)) ||
+      isLoadingState,
     hasPlayed: testMode ? false : (hasPlayedQuery ?? false),
     previousResult: testMode ? null : (previousResultQuery
       ? {
           won: previousResultQuery.won,
           attempts: previousResultQuery.attempts,
           selectedGroups: previousResultQuery.selectedGroups,
+          groups: (previousResultQuery.board?.groups as Group[] | undefined) ?? [],
+          hints: previousResultQuery.hints ?? [],
+          mode: previousResultQuery.mode ?? "classic",
         }
       : null),
+    elapsedMs,
+    timeLeftMs,
     selectWord,
     submitGuess,
+    requestHint,
     deselectAll,
     shuffle,
+    startGame,
   };
 }
 
 // Hook to get today's board
 export function useTodaysGame() {
   const { userId } = useUser();
-  const todaysBoard = useQuery(api.boards.getTodaysBoard);
+  const puzzleDate = usePuzzleDate();
+  const todaysBoard = useQuery(api.boards.getTodaysBoard, { date: puzzleDate });
   
   const boardId = todaysBoard?._id ?? null;
   const game = useGame(boardId);
@@ -250,41 +434,41 @@ export function useTodaysGame() {
   };
 }
 
-// Hook to get a random past game
+// Hook to get a random past game. The server picks the next unplayed board
+// after a random starting point; moving on continues from the current board,
+// so boards don't repeat until the whole pool is played.
 export function useRandomGame() {
-  const { userId } = useUser();
-  const [currentBoardId, setCurrentBoardId] = useState<Id<"boards"> | null>(null);
-  
-  const playedBoardIds = useQuery(
-    api.gameHistory.getPlayedBoardIds,
-    userId ? { userId } : "skip"
+  const { authToken } = useUser();
+  const [after, setAfter] = useState(() => Math.random());
+  const [current, setCurrent] = useState<{ _id: Id<"boards">; randomKey: number } | null>(
+    null
   );
 
   const randomBoard = useQuery(
     api.boards.getRandomPastBoard,
-    playedBoardIds !== undefined
-      ? { excludeBoardIds: playedBoardIds }
-      : "skip"
+    authToken ? { authToken, after } : "skip"
   );
 
-  // Set initial board
+  // Keep the board once picked, even when finishing it changes the query result
   useEffect(() => {
-    if (randomBoard && !currentBoardId) {
-      setCurrentBoardId(randomBoard._id);
+    if (randomBoard && !current) {
+      setCurrent({ _id: randomBoard._id, randomKey: randomBoard.randomKey });
     }
-  }, [randomBoard, currentBoardId]);
+  }, [randomBoard, current]);
 
-  const game = useGame(currentBoardId);
+  const game = useGame(current?._id ?? null);
 
   const getNewRandomBoard = useCallback(() => {
-    // Clear current board to trigger new random selection
-    setCurrentBoardId(null);
-  }, []);
+    if (current) {
+      setAfter(current.randomKey);
+    }
+    setCurrent(null);
+  }, [current]);
 
   return {
     ...game,
-    isLoading: playedBoardIds === undefined || randomBoard === undefined || game.isLoading,
-    noPastBoards: randomBoard === null,
+    isLoading: randomBoard === undefined || game.isLoading,
+    noPastBoards: randomBoard === null && !current,
     getNewRandomBoard,
   };
 }
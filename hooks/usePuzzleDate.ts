@@ -0,0 +1,23 @@
+import { useEffect, useState } from "react";
+import { DEFAULT_PUZZLE_TIME_ZONE, getPuzzleDate } from "@/utils/gameLogic";
+
+// Must match PUZZLE_TIME_ZONE on the Convex deployment
+export const PUZZLE_TIME_ZONE =
+  process.env.EXPO_PUBLIC_PUZZLE_TIME_ZONE ?? DEFAULT_PUZZLE_TIME_ZONE;
+
+// How often to check whether a new puzzle day has started
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+// Current puzzle day (YYYY-MM-DD), updated when midnight passes
+export function usePuzzleDate(): string {
+  const [date, setDate] = useState(() => getPuzzleDate(PUZZLE_TIME_ZONE));
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setDate(getPuzzleDate(PUZZLE_TIME_ZONE));
+    }, CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  return date;
+}
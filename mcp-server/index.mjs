@@ -76,6 +76,43 @@ if (!CONVEX_URL) {
 
 const convex = new ConvexHttpClient(CONVEX_URL);
 
+// Admin credentials, needed for the tools that list or change boards
+const ADMIN_EMAIL = process.env.ADMIN_EMAIL;
+const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD;
+let adminToken = null;
+
+// Run a call with an admin session token, logging in on first use and
+// once more if the cached session has expired
+async function withAdminToken(call) {
+  if (!ADMIN_EMAIL || !ADMIN_PASSWORD) {
+    throw new Error(
+      "ADMIN_EMAIL and ADMIN_PASSWORD environment variables are required for this tool"
+    );
+  }
+
+  const login = async () => {
+    const result = await convex.action(api.auth.adminLogin, {
+      email: ADMIN_EMAIL,
+      password: ADMIN_PASSWORD,
+    });
+    adminToken = result.token;
+  };
+
+  if (!adminToken) {
+    await login();
+  }
+
+  try {
+    return await call(adminToken);
+  } catch (error) {
+    if (!String(error.message).includes("Not authorized")) {
+      throw error;
+    }
+    await login();
+    return await call(adminToken);
+  }
+}
+
 class ConvexBoardsServer {
   constructor() {
     this.server = new Server(
@@ -108,21 +145,26 @@ class ConvexBoardsServer {
         {
           name: "get_random_past_board",
           description:
-            "Get a random past board from the pool. Optionally exclude specific board IDs.",
+            "Get a random past board from the pool. Optionally skip the boards a user has already played.",
           inputSchema: {
             type: "object",
             properties: {
-              excludeBoardIds: {
-                type: "array",
-                items: { type: "string" },
-                description: "Array of board IDs to exclude from selection",
+              authToken: {
+                type: "string",
+                description: "Skip boards already played by the user signed in with this auth token",
+              },
+              after: {
+                type: "number",
+                description:
+                  "Return the next board after this random key (from a previous result) instead of a random one",
               },
             },
           },
         },
         {
           name: "get_board",
-          description: "Get a specific board by ID",
+          description:
+            "Get a specific board by ID, including its groups, status and date (requires admin)",
           inputSchema: {
             type: "object",
             properties: {
@@ -158,7 +200,7 @@ class ConvexBoardsServer {
         },
         {
           name: "create_board",
-          description: "Create a new game board",
+          description: "Create a new game board as a draft",
           inputSchema: {
             type: "object",
             properties: {
@@ -201,6 +243,40 @@ class ConvexBoardsServer {
             required: ["groups", "isPastPool"],
           },
         },
+        {
+          name: "validate_board",
+          description:
+            "Check a board without saving it. Returns errors (which create_board would reject) and warnings worth a second look.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              groups: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    name: { type: "string" },
+                    words: {
+                      type: "array",
+                      items: { type: "string" },
+                    },
+                    difficulty: {
+                      type: "string",
+                      enum: ["easy", "medium", "hard", "very-hard"],
+                    },
+                  },
+                  required: ["name", "words", "difficulty"],
+                },
+                description: "Array of 4 groups, each containing 4 words and a difficulty level",
+              },
+              date: {
+                type: "string",
+                description: "Date in YYYY-MM-DD format (optional)",
+              },
+            },
+            required: ["groups"],
+          },
+        },
         {
           name: "update_board",
           description: "Update an existing board",
@@ -247,9 +323,29 @@ class ConvexBoardsServer {
             required: ["boardId"],
           },
         },
+        {
+          name: "set_board_status",
+          description:
+            "Move a board through its lifecycle: draft -> review -> scheduled (future date) or published -> retired. New boards are drafts and invisible to players.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              boardId: {
+                type: "string",
+                description: "The ID of the board",
+              },
+              status: {
+                type: "string",
+                enum: ["draft", "review", "scheduled", "published", "retired"],
+                description: "The new status",
+              },
+            },
+            required: ["boardId", "status"],
+          },
+        },
         {
           name: "delete_board",
-          description: "Delete a board by ID",
+          description: "Move a board to the trash by ID. It can be restored from the admin app until it is purged.",
           inputSchema: {
             type: "object",
             properties: {
@@ -261,6 +357,53 @@ class ConvexBoardsServer {
             required: ["boardId"],
           },
         },
+        {
+          name: "get_schedule",
+          description:
+            "List the daily boards of the coming days, including the days that have no board yet (emptyDays) and days with more than one board (conflictDays)",
+          inputSchema: {
+            type: "object",
+            properties: {
+              days: {
+                type: "number",
+                description: "Number of days to look ahead, starting today (default: 60)",
+              },
+            },
+          },
+        },
+        {
+          name: "import_boards",
+          description:
+            "Import many boards from a JSON or CSV export. Nothing is imported unless every row is valid; use dryRun to only check.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              format: {
+                type: "string",
+                enum: ["json", "csv"],
+                description: "Format of the content",
+              },
+              content: {
+                type: "string",
+                description: "The file content to import",
+              },
+              dryRun: {
+                type: "boolean",
+                description: "Only check the rows, do not import (default: false)",
+              },
+            },
+            required: ["format", "content"],
+          },
+        },
+        {
+          name: "export_boards",
+          description:
+            "Export all boards in the JSON import format, for backups. CSV exports are available in the admin screen.",
+          inputSchema: {
+            type: "object",
+            properties: {},
+          },
+        },
       ],
     }));
 
@@ -283,7 +426,8 @@ class ConvexBoardsServer {
 
           case "get_random_past_board": {
             const result = await convex.query(api.boards.getRandomPastBoard, {
-              excludeBoardIds: args.excludeBoardIds || undefined,
+              authToken: args.authToken || undefined,
+              after: args.after ?? Math.random(),
             });
             return {
               content: [
@@ -299,9 +443,12 @@ class ConvexBoardsServer {
             if (!args.boardId) {
               throw new Error("boardId is required");
             }
-            const result = await convex.query(api.boards.getBoard, {
-              boardId: args.boardId,
-            });
+            const result = await withAdminToken((token) =>
+              convex.query(api.boards.getBoardForAdmin, {
+                adminToken: token,
+                boardId: args.boardId,
+              })
+            );
             return {
               content: [
                 {
@@ -316,9 +463,13 @@ class ConvexBoardsServer {
             if (!args.boardId) {
               throw new Error("boardId is required");
             }
-            const board = await convex.query(api.boards.getBoard, {
-              boardId: args.boardId,
-            });
+            // Works for drafts too, unlike the player query
+            const board = await withAdminToken((token) =>
+              convex.query(api.boards.getTestBoard, {
+                adminToken: token,
+                boardId: args.boardId,
+              })
+            );
             if (!board) {
               throw new Error("Board not found");
             }
@@ -339,7 +490,9 @@ class ConvexBoardsServer {
           }
 
           case "list_boards": {
-            const result = await convex.query(api.boards.listBoards, {});
+            const result = await withAdminToken((token) =>
+              convex.query(api.boards.listBoards, { adminToken: token })
+            );
             return {
               content: [
                 {
@@ -358,12 +511,15 @@ class ConvexBoardsServer {
               throw new Error("isPastPool boolean is required");
             }
 
-            const result = await convex.mutation(api.boards.createBoard, {
-              words: args.words || undefined,
-              groups: args.groups,
-              date: args.date || undefined,
-              isPastPool: args.isPastPool,
-            });
+            const result = await withAdminToken((token) =>
+              convex.mutation(api.boards.createBoard, {
+                adminToken: token,
+                words: args.words || undefined,
+                groups: args.groups,
+                date: args.date || undefined,
+                isPastPool: args.isPastPool,
+              })
+            );
 
             return {
               content: [
@@ -379,6 +535,29 @@ class ConvexBoardsServer {
             };
           }
 
+          case "validate_board": {
+            if (!args.groups || !Array.isArray(args.groups)) {
+              throw new Error("groups array is required");
+            }
+
+            const result = await withAdminToken((token) =>
+              convex.query(api.boards.validateBoardForAdmin, {
+                adminToken: token,
+                groups: args.groups,
+                date: args.date || undefined,
+              })
+            );
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+
           case "update_board": {
             if (!args.boardId) {
               throw new Error("boardId is required");
@@ -391,10 +570,13 @@ class ConvexBoardsServer {
             if (typeof args.isPastPool === "boolean")
               updateArgs.isPastPool = args.isPastPool;
 
-            const result = await convex.mutation(api.boards.updateBoard, {
-              boardId: args.boardId,
-              ...updateArgs,
-            });
+            const result = await withAdminToken((token) =>
+              convex.mutation(api.boards.updateBoard, {
+                adminToken: token,
+                boardId: args.boardId,
+                ...updateArgs,
+              })
+            );
 
             return {
               content: [
@@ -410,14 +592,58 @@ class ConvexBoardsServer {
             };
           }
 
+          case "set_board_status": {
+            if (!args.boardId || !args.status) {
+              throw new Error("boardId and status are required");
+            }
+
+            const result = await withAdminToken((token) =>
+              convex.mutation(api.boards.setBoardStatus, {
+                adminToken: token,
+                boardId: args.boardId,
+                status: args.status,
+              })
+            );
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify({ success: true, status: result }, null, 2),
+                },
+              ],
+            };
+          }
+
           case "delete_board": {
             if (!args.boardId) {
               throw new Error("boardId is required");
             }
 
-            const result = await convex.mutation(api.boards.deleteBoard, {
-              boardId: args.boardId,
-            });
+            const result = await withAdminToken((token) =>
+              convex.mutation(api.boards.deleteBoard, {
+                adminToken: token,
+                boardId: args.boardId,
+              })
+            );
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+
+          case "get_schedule": {
+            const result = await withAdminToken((token) =>
+              convex.query(api.schedule.getSchedule, {
+                adminToken: token,
+                days: args?.days,
+              })
+            );
 
             return {
               content: [
@@ -429,6 +655,50 @@ class ConvexBoardsServer {
             };
           }
 
+          case "import_boards": {
+            if (!args.format || !args.content) {
+              throw new Error("format and content are required");
+            }
+
+            const result = await withAdminToken((token) =>
+              convex.action(api.boardTransfer.importBoards, {
+                adminToken: token,
+                format: args.format,
+                content: args.content,
+                dryRun: args.dryRun ?? false,
+              })
+            );
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: JSON.stringify(result, null, 2),
+                },
+              ],
+            };
+          }
+
+          case "export_boards": {
+            const boards = await withAdminToken((token) =>
+              convex.query(api.boardTransfer.exportBoards, { adminToken: token })
+            );
+
+            return {
+              content: [
+                {
+                  type: "text",
+                  // Same shape as toBoardsJson in utils/boardTransfer.ts
+                  text: JSON.stringify(
+                    { version: 1, exportedAt: new Date().toISOString(), boards },
+                    null,
+                    2
+                  ),
+                },
+              ],
+            };
+          }
+
           default:
             throw new Error(`Unknown tool: ${name}`);
         }
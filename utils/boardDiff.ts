@@ -0,0 +1,63 @@
+import { Group } from "./gameLogic";
+
+// How one group changed between two revisions of a board. A group only in
+// the newer revision has no `before`, one that was dropped has no `after`.
+export interface GroupDiff {
+  before: Group | null;
+  after: Group | null;
+  addedWords: string[];
+  removedWords: string[];
+}
+
+function sharedWordCount(a: Group, b: Group): number {
+  return a.words.filter((word) => b.words.includes(word)).length;
+}
+
+// Compare the groups of two revisions. Groups are paired by the words they
+// share, so a renamed or re-labelled group still shows as one change.
+export function diffBoardGroups(before: Group[], after: Group[]): GroupDiff[] {
+  const unmatched = [...before];
+
+  const diffs = after.map((group): GroupDiff => {
+    let best: Group | null = null;
+    for (const candidate of unmatched) {
+      const shared = sharedWordCount(candidate, group);
+      const bestShared = best ? sharedWordCount(best, group) : 0;
+      if (shared > bestShared || (!best && candidate.name === group.name)) {
+        best = candidate;
+      }
+    }
+    if (best) {
+      unmatched.splice(unmatched.indexOf(best), 1);
+    }
+
+    return {
+      before: best,
+      after: group,
+      addedWords: group.words.filter((word) => !best?.words.includes(word)),
+      removedWords: best?.words.filter((word) => !group.words.includes(word)) ?? [],
+    };
+  });
+
+  return [
+    ...diffs,
+    ...unmatched.map((group) => ({
+      before: group,
+      after: null,
+      addedWords: [],
+      removedWords: group.words,
+    })),
+  ];
+}
+
+// Whether a group is the same in both revisions
+export function isUnchanged(diff: GroupDiff): boolean {
+  return (
+    diff.before !== null &&
+    diff.after !== null &&
+    diff.before.name === diff.after.name &&
+    diff.before.difficulty === diff.after.difficulty &&
+    diff.addedWords.length === 0 &&
+    diff.removedWords.length === 0
+  );
+}
@@ -0,0 +1,115 @@
+// Where a board is in its life: drafts are being written, boards in review
+// wait for a second look, scheduled boards go live on their date, published
+// boards can be played and retired boards are only kept for history
+export type BoardStatus = "draft" | "review" | "scheduled" | "published" | "retired";
+
+export const BOARD_STATUSES: BoardStatus[] = [
+  "draft",
+  "review",
+  "scheduled",
+  "published",
+  "retired",
+];
+
+// The status changes an admin can make. Scheduled boards become published on
+// their own once their day has come.
+export const BOARD_STATUS_TRANSITIONS: Record<BoardStatus, BoardStatus[]> = {
+  draft: ["review"],
+  review: ["draft", "scheduled", "published"],
+  scheduled: ["review", "published"],
+  published: ["retired"],
+  retired: ["published"],
+};
+
+interface BoardLike {
+  status?: BoardStatus;
+  date?: string;
+  isPastPool: boolean;
+}
+
+// The status a board has on the given puzzle day. Boards from before
+// statuses existed were live as soon as they were dated or in the pool.
+export function getBoardStatus(board: BoardLike, today: string): BoardStatus {
+  const status =
+    board.status ?? (board.date ? "scheduled" : board.isPastPool ? "published" : "draft");
+  if (status === "scheduled" && board.date && board.date <= today) {
+    return "published";
+  }
+  return status;
+}
+
+// Whether a board with this date can have a status: only boards with a
+// future date are scheduled, and those are never published yet
+export function isStatusAllowedOnDate(
+  status: BoardStatus,
+  date: string | undefined,
+  today: string
+): boolean {
+  if (status === "scheduled") return !!date && date > today;
+  if (status === "published") return !date || date <= today;
+  return true;
+}
+
+// Why a board cannot move to a status, or null if it can
+export function getStatusChangeError(
+  board: BoardLike,
+  to: BoardStatus,
+  today: string
+): string | null {
+  const from = getBoardStatus(board, today);
+  if (!BOARD_STATUS_TRANSITIONS[from].includes(to)) {
+    return `A ${from} board cannot become ${to}`;
+  }
+  if (!isStatusAllowedOnDate(to, board.date, today)) {
+    return to === "scheduled"
+      ? "Only boards with a future date can be scheduled"
+      : "Boards with a future date are scheduled, not published";
+  }
+  return null;
+}
+
+export function getBoardStatusLabel(status: BoardStatus): string {
+  switch (status) {
+    case "draft":
+      return "Entwurf";
+    case "review":
+      return "In Prüfung";
+    case "scheduled":
+      return "Geplant";
+    case "published":
+      return "Veröffentlicht";
+    case "retired":
+      return "Zurückgezogen";
+  }
+}
+
+export function getBoardStatusColor(status: BoardStatus): string {
+  switch (status) {
+    case "draft":
+      return "#999999";
+    case "review":
+      return "#E8A33D";
+    case "scheduled":
+      return "#6FA8DC";
+    case "published":
+      return "#7BC67B";
+    case "retired":
+      return "#FF6B6B";
+  }
+}
+
+// Button label for moving a board to a status
+export function getBoardStatusActionLabel(status: BoardStatus): string {
+  switch (status) {
+    case "draft":
+      return "Zurück zum Entwurf";
+    case "review":
+      return "Zur Prüfung";
+    case "scheduled":
+      return "Einplanen";
+    case "published":
+      return "Veröffentlichen";
+    case "retired":
+      return "Zurückziehen";
+  }
+}
@@ -0,0 +1,236 @@
+import { DIFFICULTIES, normalizeWord, validateBoard } from "./boardValidation";
+import { BOARD_STATUSES, BoardStatus } from "./boardStatus";
+import { Difficulty, Group } from "./gameLogic";
+
+// Version of the interchange format; bump when its shape changes
+export const BOARD_FORMAT_VERSION = 1;
+
+// One board in the interchange format
+export interface BoardRecord {
+  date?: string;
+  isPastPool: boolean;
+  groups: Group[];
+  // Only in JSON; CSV imports always start as drafts
+  status?: BoardStatus;
+  // Only informational in exports, ignored on import
+  puzzleNumber?: number;
+}
+
+export interface BoardExport {
+  version: number;
+  exportedAt: string;
+  boards: BoardRecord[];
+}
+
+// A board read from an import file, or why it could not be read
+export type ParsedRow =
+  | { row: number; board: BoardRecord; warnings: string[] }
+  | { row: number; errors: string[] };
+
+// CSV columns: version, date, pool flag, then name, difficulty and
+// "|"-separated words for each of the four groups
+const CSV_HEADER = [
+  "version",
+  "date",
+  "isPastPool",
+  ...DIFFICULTIES.flatMap((_, i) => [
+    `group${i + 1}Name`,
+    `group${i + 1}Difficulty`,
+    `group${i + 1}Words`,
+  ]),
+];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isDifficulty(value: unknown): value is Difficulty {
+  return DIFFICULTIES.includes(value as Difficulty);
+}
+
+function isBoardStatus(value: unknown): value is BoardStatus {
+  return BOARD_STATUSES.includes(value as BoardStatus);
+}
+
+// Turn untrusted input into a board record, normalizing words. Returns the
+// errors instead if its shape is wrong.
+function toBoardRecord(value: unknown): BoardRecord | string[] {
+  if (!isRecord(value)) {
+    return ["Spielbrett ist kein Objekt"];
+  }
+  if (!Array.isArray(value.groups)) {
+    return ["„groups“-Liste fehlt"];
+  }
+
+  const errors: string[] = [];
+  const groups: Group[] = [];
+  value.groups.forEach((group: unknown, index) => {
+    const label = `Gruppe ${index + 1}`;
+    if (!isRecord(group)) {
+      errors.push(`${label} ist kein Objekt`);
+    } else if (typeof group.name !== "string") {
+      errors.push(`${label} hat keinen Namen`);
+    } else if (!isDifficulty(group.difficulty)) {
+      errors.push(`${label} hat eine unbekannte Schwierigkeit`);
+    } else if (
+      !Array.isArray(group.words) ||
+      !group.words.every((word: unknown) => typeof word === "string")
+    ) {
+      errors.push(`${label} braucht eine Liste von Wörtern`);
+    } else {
+      groups.push({
+        name: group.name.trim(),
+        difficulty: group.difficulty,
+        words: group.words.map((word: string) => normalizeWord(word)),
+      });
+    }
+  });
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  return {
+    date: typeof value.date === "string" && value.date ? value.date : undefined,
+    isPastPool: value.isPastPool === true,
+    status: isBoardStatus(value.status) ? value.status : undefined,
+    groups,
+  };
+}
+
+// Check a board with the shared validator
+function toParsedRow(row: number, record: BoardRecord | string[]): ParsedRow {
+  if (Array.isArray(record)) {
+    return { row, errors: record };
+  }
+  const { errors, warnings } = validateBoard(record);
+  return errors.length > 0
+    ? { row, errors: errors.map((e) => e.message) }
+    : { row, board: record, warnings: warnings.map((w) => w.message) };
+}
+
+// Read boards from the JSON format. Rows are numbered from 1.
+export function parseBoardsJson(content: string): ParsedRow[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return [{ row: 0, errors: ["Datei ist kein gültiges JSON"] }];
+  }
+
+  if (!isRecord(data) || data.version !== BOARD_FORMAT_VERSION) {
+    const version = isRecord(data) ? data.version : undefined;
+    return [{ row: 0, errors: [`Nicht unterstützte Formatversion ${version}`] }];
+  }
+  if (!Array.isArray(data.boards)) {
+    return [{ row: 0, errors: ["„boards“-Liste fehlt"] }];
+  }
+
+  return data.boards.map((value: unknown, index) =>
+    toParsedRow(index + 1, toBoardRecord(value))
+  );
+}
+
+// Split CSV text into rows of fields, following RFC 4180 quoting
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines carry no board
+  return rows.filter((r) => r.some((f) => f.trim()));
+}
+
+// Read boards from the CSV format. Rows are numbered like the data lines
+// of the file, so the first board is row 1.
+export function parseBoardsCsv(content: string): ParsedRow[] {
+  const [header, ...lines] = parseCsv(content);
+  if (!header || header.map((f) => f.trim()).join(",") !== CSV_HEADER.join(",")) {
+    return [{ row: 0, errors: [`Erwartete Kopfzeile: ${CSV_HEADER.join(",")}`] }];
+  }
+
+  return lines.map((fields, index) => {
+    const row = index + 1;
+    if (fields.length !== CSV_HEADER.length) {
+      return {
+        row,
+        errors: [`${fields.length} statt ${CSV_HEADER.length} Spalten`],
+      };
+    }
+    if (Number(fields[0]) !== BOARD_FORMAT_VERSION) {
+      return { row, errors: [`Nicht unterstützte Formatversion ${fields[0]}`] };
+    }
+
+    const board = toBoardRecord({
+      date: fields[1].trim(),
+      isPastPool: fields[2].trim().toLowerCase() === "true",
+      groups: DIFFICULTIES.map((_, i) => ({
+        name: fields[3 + i * 3],
+        difficulty: fields[4 + i * 3].trim(),
+        words: fields[5 + i * 3].split("|"),
+      })),
+    });
+    return toParsedRow(row, board);
+  });
+}
+
+// Quote a CSV field if it needs it
+function toCsvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Write boards in the JSON format
+export function toBoardsJson(boards: BoardRecord[], exportedAt: Date = new Date()): string {
+  const data: BoardExport = {
+    version: BOARD_FORMAT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    boards,
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+// Write boards in the CSV format
+export function toBoardsCsv(boards: BoardRecord[]): string {
+  const lines = boards.map((board) =>
+    [
+      String(BOARD_FORMAT_VERSION),
+      board.date ?? "",
+      String(board.isPastPool),
+      ...board.groups.flatMap((group) => [group.name, group.difficulty, group.words.join("|")]),
+    ]
+      .map(toCsvField)
+      .join(",")
+  );
+  return [CSV_HEADER.join(","), ...lines].join("\n");
+}
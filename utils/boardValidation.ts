@@ -0,0 +1,203 @@
+import { Difficulty, WORDS_PER_GROUP } from "./gameLogic";
+
+export const DIFFICULTIES: Difficulty[] = ["easy", "medium", "hard", "very-hard"];
+
+// Longer words no longer fit on a tile without hyphenation
+const LONG_WORD_LENGTH = 14;
+
+// A board as entered by an admin, before anything is checked
+export interface BoardInput {
+  groups: { name: string; words: string[]; difficulty: string }[];
+  // The 16 board words; when given they must match the groups
+  words?: string[];
+  date?: string;
+}
+
+export type BoardIssueCode =
+  | "group-count"
+  | "word-count"
+  | "blank-name"
+  | "duplicate-name"
+  | "blank-word"
+  | "duplicate-word"
+  | "unknown-difficulty"
+  | "duplicate-difficulty"
+  | "words-mismatch"
+  | "invalid-date"
+  | "name-contains-word"
+  | "long-word";
+
+export interface BoardIssue {
+  code: BoardIssueCode;
+  // In German, admins see it in the editor and on import
+  message: string;
+  // Index of the group the issue is about, if any
+  group?: number;
+}
+
+// Errors make a board unplayable; warnings are worth a second look
+export interface BoardValidation {
+  errors: BoardIssue[];
+  warnings: BoardIssue[];
+}
+
+// Normalize a word the way boards store it
+export function normalizeWord(word: string): string {
+  return word.trim().toUpperCase();
+}
+
+// Trim group names and normalize words before a board is stored
+export function normalizeGroups<T extends { name: string; words: string[] }>(groups: T[]): T[] {
+  return groups.map((group) => ({
+    ...group,
+    name: group.name.trim(),
+    words: group.words.map(normalizeWord),
+  }));
+}
+
+// Key for spotting words that only differ in case, umlaut spelling, accents,
+// spaces or hyphens, e.g. MÜNCHEN and MUENCHEN
+export function wordKey(word: string): string {
+  return normalizeWord(word)
+    .replace(/Ä/g, "AE")
+    .replace(/Ö/g, "OE")
+    .replace(/Ü/g, "UE")
+    .replace(/ẞ/g, "SS")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[\s\-.]/g, "");
+}
+
+function isValidDate(date: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === date;
+}
+
+// Check a board. Used by the Convex mutations, the board editor and imports,
+// so all of them agree on what a valid board is.
+export function validateBoard(board: BoardInput): BoardValidation {
+  const errors: BoardIssue[] = [];
+  const warnings: BoardIssue[] = [];
+  const { groups } = board;
+
+  if (groups.length !== DIFFICULTIES.length) {
+    errors.push({
+      code: "group-count",
+      message: `Ein Spielbrett braucht ${DIFFICULTIES.length} Gruppen, nicht ${groups.length}`,
+    });
+  }
+
+  const names = new Map<string, number>();
+  groups.forEach((group, index) => {
+    const label = group.name.trim() ? `Gruppe „${group.name.trim()}“` : `Gruppe ${index + 1}`;
+
+    if (!group.name.trim()) {
+      errors.push({ code: "blank-name", message: `${label} hat keinen Namen`, group: index });
+    } else {
+      const nameKey = group.name.trim().toUpperCase();
+      if (names.has(nameKey)) {
+        errors.push({
+          code: "duplicate-name",
+          message: `${label} heißt genauso wie eine andere Gruppe`,
+          group: index,
+        });
+      }
+      names.set(nameKey, index);
+    }
+
+    if (!DIFFICULTIES.includes(group.difficulty as Difficulty)) {
+      errors.push({
+        code: "unknown-difficulty",
+        message: `${label} hat die unbekannte Schwierigkeit „${group.difficulty}“`,
+        group: index,
+      });
+    }
+
+    if (group.words.length !== WORDS_PER_GROUP) {
+      errors.push({
+        code: "word-count",
+        message: `${label} hat ${group.words.length} statt ${WORDS_PER_GROUP} Wörter`,
+        group: index,
+      });
+    }
+    if (group.words.some((word) => !word.trim())) {
+      errors.push({ code: "blank-word", message: `${label} hat ein leeres Wort`, group: index });
+    }
+
+    const nameKey = wordKey(group.name);
+    for (const word of group.words) {
+      // Very short words appear inside names by chance
+      if (wordKey(word).length >= 3 && nameKey.includes(wordKey(word))) {
+        warnings.push({
+          code: "name-contains-word",
+          message: `${label} verrät ihr Wort „${normalizeWord(word)}“`,
+          group: index,
+        });
+      }
+      if (normalizeWord(word).length > LONG_WORD_LENGTH) {
+        warnings.push({
+          code: "long-word",
+          message: `„${normalizeWord(word)}“ ist lang und passt eventuell nicht auf eine Kachel`,
+          group: index,
+        });
+      }
+    }
+  });
+
+  // Words that only differ in spelling would make the board ambiguous
+  const seen = new Map<string, string>();
+  const reported = new Set<string>();
+  for (const word of groups.flatMap((g) => g.words)) {
+    const key = wordKey(word);
+    if (!key) continue;
+    const first = seen.get(key);
+    if (first !== undefined && !reported.has(key)) {
+      reported.add(key);
+      errors.push({
+        code: "duplicate-word",
+        message:
+          first === normalizeWord(word)
+            ? `Das Wort „${first}“ kommt doppelt vor`
+            : `„${first}“ und „${normalizeWord(word)}“ sind dasselbe Wort`,
+      });
+    }
+    if (first === undefined) seen.set(key, normalizeWord(word));
+  }
+
+  const difficulties = new Set(groups.map((g) => g.difficulty));
+  if (difficulties.size !== groups.length) {
+    errors.push({
+      code: "duplicate-difficulty",
+      message: "Jede Schwierigkeit muss genau einmal vorkommen",
+    });
+  }
+
+  if (board.words !== undefined) {
+    const groupWords = groups.flatMap((g) => g.words.map(normalizeWord)).sort();
+    const words = board.words.map(normalizeWord).sort();
+    if (words.join("\n") !== groupWords.join("\n")) {
+      errors.push({
+        code: "words-mismatch",
+        message: "Die Wörter des Spielbretts passen nicht zu den Wörtern der Gruppen",
+      });
+    }
+  }
+
+  if (board.date !== undefined && board.date !== "" && !isValidDate(board.date)) {
+    errors.push({
+      code: "invalid-date",
+      message: `Das Datum „${board.date}“ muss im Format JJJJ-MM-TT sein`,
+    });
+  }
+
+  return { errors, warnings };
+}
+
+// Throw the errors of an invalid board, for the Convex mutations
+export function assertValidBoard(board: BoardInput): void {
+  const { errors } = validateBoard(board);
+  if (errors.length > 0) {
+    throw new Error(errors.map((e) => e.message).join("; "));
+  }
+}
@@ -11,11 +11,48 @@ export interface Board {
   words: string[];
   groups: Group[];
   date?: string;
+  puzzleNumber?: number;
   isPastPool: boolean;
   createdAt: number;
 }
 
+// What players get to see of a board before solving it
+export interface PlayerBoard {
+  _id: string;
+  words: string[];
+  date?: string;
+  puzzleNumber?: number;
+}
+
+export type HintType = "reveal-word" | "reveal-category" | "check-pair";
+
+// A hint the player has used, with what it revealed
+export type UsedHint =
+  | { type: "reveal-word"; word: string; difficulty: Difficulty }
+  | { type: "reveal-category"; groupName: string; difficulty: Difficulty }
+  | { type: "check-pair"; words: string[]; sameGroup: boolean };
+
+export type GameMode = "classic" | "zen" | "hard" | "timed";
+
+export interface GameModeConfig {
+  // null means unlimited mistakes
+  maxMistakes: number | null;
+  // Groups have to be found from easiest to hardest
+  inDifficultyOrder: boolean;
+  // null means no time limit
+  timeLimitMs: number | null;
+  countsTowardStats: boolean;
+}
+
 export interface GameState {
+  mode: GameMode;
+  // When the game was started, once the player has chosen a mode or made a move
+  startedAt?: number;
+  // Set while the app is in the background; paused time is not counted
+  pausedAt?: number;
+  pausedMs: number;
+  // Playing time in ms at which each group was found, in solving order
+  groupSolveTimes: number[];
   remainingWords: string[];
   solvedGroups: Group[];
   selectedWords: string[];
@@ -23,11 +60,68 @@ export interface GameState {
   isComplete: boolean;
   won: boolean;
   attempts: { words: string[]; correct: boolean }[];
+  hints: UsedHint[];
+}
+
+// Progress of a game as tracked by the server
+export interface GameProgress {
+  mode: GameMode;
+  startedAt?: number;
+  pausedAt?: number;
+  pausedMs: number;
+  groupSolveTimes: number[];
+  solvedGroups: Group[];
+  mistakesRemaining: number;
+  isComplete: boolean;
+  won: boolean;
+  attempts: { words: string[]; correct: boolean }[];
+  hints: UsedHint[];
 }
 
 export const MAX_MISTAKES = 4;
 export const WORDS_PER_GROUP = 4;
 
+export const GAME_MODES: Record<GameMode, GameModeConfig> = {
+  classic: {
+    maxMistakes: MAX_MISTAKES,
+    inDifficultyOrder: false,
+    timeLimitMs: null,
+    countsTowardStats: true,
+  },
+  zen: {
+    maxMistakes: null,
+    inDifficultyOrder: false,
+    timeLimitMs: null,
+    countsTowardStats: false,
+  },
+  hard: {
+    maxMistakes: 1,
+    inDifficultyOrder: true,
+    timeLimitMs: null,
+    countsTowardStats: true,
+  },
+  timed: {
+    maxMistakes: MAX_MISTAKES,
+    inDifficultyOrder: false,
+    timeLimitMs: 3 * 60 * 1000,
+    countsTowardStats: true,
+  },
+};
+
+// What each hint costs: lives taken, and how often it may be used per game
+export const HINT_CONFIG: Record<HintType, { lifeCost: number; maxPerGame: number }> = {
+  "reveal-word": { lifeCost: 1, maxPerGame: 2 },
+  "reveal-category": { lifeCost: 0, maxPerGame: 1 },
+  "check-pair": { lifeCost: 0, maxPerGame: 2 },
+};
+
+const DIFFICULTY_ORDER: Record<Difficulty, number> = {
+  easy: 0,
+  medium: 1,
+  hard: 2,
+  "very-hard": 3,
+};
+
 // Fisher-Yates shuffle algorithm
 export function shuffleWords<T>(array: T[]): T[] {
   const shuffled = [...array];
@@ -38,63 +132,191 @@ export function shuffleWords<T>(array: T[]): T[] {
   return shuffled;
 }
 
-// Check if selected words match any group
+// Deterministic shuffle, so a reactive query returns the same order on every run
+export function seededShuffle<T>(array: T[], seed: string): T[] {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = (Math.imul(state, 31) + seed.charCodeAt(i)) | 0;
+  }
+
+  // mulberry32
+  const random = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const shuffled = [...array];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// Check if selected words match any group. A guess with 3 of 4 words from
+// a group is close; with four words at most one group can be that close.
 export function checkGroup(
   selectedWords: string[],
   groups: Group[]
-): { match: Group | null; isClose: boolean } {
+): { match: Group | null; closeGroup: Group | null; isClose: boolean } {
   if (selectedWords.length !== WORDS_PER_GROUP) {
-    return { match: null, isClose: false };
+    return { match: null, closeGroup: null, isClose: false };
   }
 
-  const selectedSet = new Set(selectedWords);
-
+  let closeGroup: Group | null = null;
   for (const group of groups) {
     const groupSet = new Set(group.words);
     const matchCount = selectedWords.filter((w) => groupSet.has(w)).length;
 
     if (matchCount === WORDS_PER_GROUP) {
-      return { match: group, isClose: false };
+      return { match: group, closeGroup: null, isClose: false };
     }
 
-    // Check if 3 out of 4 words match (close guess)
-    if (matchCount === 3) {
-      return { match: null, isClose: true };
+    if (matchCount === WORDS_PER_GROUP - 1) {
+      closeGroup = group;
     }
   }
 
-  return { match: null, isClose: false };
+  return { match: null, closeGroup, isClose: closeGroup !== null };
+}
+
+// Whether the same four words were already guessed, in any order
+export function isRepeatedGuess(
+  selectedWords: string[],
+  attempts: { words: string[] }[]
+): boolean {
+  const selected = new Set(selectedWords);
+  return attempts.some(
+    (attempt) =>
+      attempt.words.length === selected.size && attempt.words.every((w) => selected.has(w))
+  );
 }
 
 // Create initial game state from a board
-export function createGameState(board: Board): GameState {
+export function createGameState(board: PlayerBoard, mode: GameMode = "classic"): GameState {
   return {
+    mode,
+    pausedMs: 0,
+    groupSolveTimes: [],
     remainingWords: shuffleWords(board.words),
     solvedGroups: [],
     selectedWords: [],
-    mistakesRemaining: MAX_MISTAKES,
+    // Unlimited games keep a full count that is never used up
+    mistakesRemaining: GAME_MODES[mode].maxMistakes ?? MAX_MISTAKES,
     isComplete: false,
     won: false,
     attempts: [],
+    hints: [],
   };
 }
 
-// Process a guess and return new game state
+// Outcome of a guess together with the resulting game state. nearGroup is
+// the group a one-away guess belonged to; it must not be shown to players.
+export type GuessResult =
+  | { outcome: "correct"; state: GameState; group: Group }
+  | { outcome: "one-away"; state: GameState; nearGroup: Group }
+  | { outcome: "wrong"; state: GameState }
+  | { outcome: "repeated"; state: GameState }
+  | { outcome: "time-up"; state: GameState }
+  | { outcome: "incomplete"; state: GameState };
+
+export type GuessOutcome = GuessResult["outcome"];
+
+// Whether a mode's clock can be paused. A time limit runs on wall-clock
+// time: the words stay visible during a pause, so pausing would stop it.
+export function canPause(mode: GameMode): boolean {
+  return GAME_MODES[mode].timeLimitMs === null;
+}
+
+// Playing time of a game so far, without the time it was paused
+export function getElapsedMs(
+  state: Pick<GameState, "mode" | "startedAt" | "pausedAt" | "pausedMs">,
+  now: number = Date.now()
+): number {
+  if (state.startedAt === undefined) return 0;
+  if (!canPause(state.mode)) return Math.max(0, now - state.startedAt);
+  return Math.max(0, (state.pausedAt ?? now) - state.startedAt - state.pausedMs);
+}
+
+// Stop the clock, e.g. while the app is in the background. Timed games keep
+// running.
+export function pauseClock(state: GameState, now: number = Date.now()): GameState {
+  if (
+    state.startedAt === undefined ||
+    state.pausedAt !== undefined ||
+    state.isComplete ||
+    !canPause(state.mode)
+  ) {
+    return state;
+  }
+  return { ...state, pausedAt: now };
+}
+
+// Start the clock again after a pause
+export function resumeClock(state: GameState, now: number = Date.now()): GameState {
+  if (state.pausedAt === undefined) {
+    return state;
+  }
+  return { ...state, pausedAt: undefined, pausedMs: state.pausedMs + (now - state.pausedAt) };
+}
+
+// Whether a timed game has run out of time
+export function isTimeUp(state: GameState, now: number = Date.now()): boolean {
+  const { timeLimitMs } = GAME_MODES[state.mode];
+  return (
+    timeLimitMs !== null &&
+    state.startedAt !== undefined &&
+    getElapsedMs(state, now) >= timeLimitMs
+  );
+}
+
+// End a game that has run out of time
+export function expireGame(state: GameState): GameState {
+  return { ...state, selectedWords: [], isComplete: true, won: false };
+}
+
+// Process a guess and return its outcome and the new game state
 export function processGuess(
   state: GameState,
-  groups: Group[]
-): GameState {
+  groups: Group[],
+  now: number = Date.now()
+): GuessResult {
   const { selectedWords, remainingWords, solvedGroups, mistakesRemaining, attempts } = state;
+  const config = GAME_MODES[state.mode];
+
+  if (isTimeUp(state, now)) {
+    return { outcome: "time-up", state: expireGame(state) };
+  }
 
   if (selectedWords.length !== WORDS_PER_GROUP) {
-    return state;
+    return { outcome: "incomplete", state };
+  }
+
+  // Trying the same words again costs nothing
+  if (isRepeatedGuess(selectedWords, attempts)) {
+    return { outcome: "repeated", state };
   }
 
   // Find unsolved groups
   const solvedGroupNames = new Set(solvedGroups.map((g) => g.name));
   const unsolvedGroups = groups.filter((g) => !solvedGroupNames.has(g.name));
 
-  const { match, isClose } = checkGroup(selectedWords, unsolvedGroups);
+  const checked = checkGroup(selectedWords, unsolvedGroups);
+  const { closeGroup } = checked;
+
+  // Finding a harder group too early is a plain mistake. Telling players
+  // it was a group would let them check guesses for free.
+  const match =
+    checked.match &&
+    config.inDifficultyOrder &&
+    unsolvedGroups.some(
+      (g) => DIFFICULTY_ORDER[g.difficulty] < DIFFICULTY_ORDER[checked.match!.difficulty]
+    )
+      ? null
+      : checked.match;
+
   const newAttempts = [...attempts, { words: [...selectedWords], correct: match !== null }];
 
   if (match) {
@@ -106,28 +328,149 @@ export function processGuess(
     const isComplete = newSolvedGroups.length === groups.length;
 
     return {
-      remainingWords: newRemainingWords,
-      solvedGroups: newSolvedGroups,
-      selectedWords: [],
-      mistakesRemaining,
-      isComplete,
-      won: isComplete,
-      attempts: newAttempts,
+      outcome: "correct",
+      group: match,
+      state: {
+        ...state,
+        remainingWords: newRemainingWords,
+        solvedGroups: newSolvedGroups,
+        selectedWords: [],
+        mistakesRemaining,
+        isComplete,
+        won: isComplete,
+        attempts: newAttempts,
+        groupSolveTimes: [...state.groupSolveTimes, getElapsedMs(state, now)],
+      },
     };
+  }
+
+  // Wrong guess - keep words selected so user can try again
+  const newMistakes = config.maxMistakes === null ? mistakesRemaining : mistakesRemaining - 1;
+  const newState: GameState = {
+    ...state,
+    mistakesRemaining: newMistakes,
+    isComplete: newMistakes === 0,
+    won: false,
+    attempts: newAttempts,
+  };
+
+  return closeGroup
+    ? { outcome: "one-away", state: newState, nearGroup: closeGroup }
+    : { outcome: "wrong", state: newState };
+}
+
+// Apply authoritative progress to a local game state, keeping the local word order
+export function applyProgress(
+  state: GameState,
+  progress: GameProgress
+): GameState {
+  const solvedWords = new Set(progress.solvedGroups.flatMap((g) => g.words));
+  const remainingWords = state.remainingWords.filter((w) => !solvedWords.has(w));
+
+  return {
+    mode: progress.mode,
+    startedAt: progress.startedAt,
+    pausedAt: progress.pausedAt,
+    pausedMs: progress.pausedMs,
+    groupSolveTimes: progress.groupSolveTimes,
+    remainingWords,
+    solvedGroups: progress.solvedGroups,
+    selectedWords: state.selectedWords.filter((w) => remainingWords.includes(w)),
+    mistakesRemaining: progress.mistakesRemaining,
+    isComplete: progress.isComplete,
+    won: progress.won,
+    attempts: progress.attempts,
+    hints: progress.hints,
+  };
+}
+
+// Why a hint could not be given
+export type HintRefusal =
+  | "game-over"
+  | "limit-reached"
+  | "not-enough-lives"
+  | "invalid-pair"
+  | "nothing-left";
+
+// Outcome of asking for a hint
+export type HintResult =
+  | { ok: true; hint: UsedHint; state: GameState }
+  | { ok: false; reason: HintRefusal };
+
+// Use a hint. Words to reveal come from the easiest unsolved group; a pair
+// check needs exactly two remaining words.
+export function applyHint(
+  state: GameState,
+  groups: Group[],
+  type: HintType,
+  words: string[] = []
+): HintResult {
+  const config = HINT_CONFIG[type];
+  // Without a mistake limit, hints cost no lives
+  const lifeCost = GAME_MODES[state.mode].maxMistakes === null ? 0 : config.lifeCost;
+
+  if (state.isComplete) {
+    return { ok: false, reason: "game-over" };
+  }
+  if (state.hints.filter((h) => h.type === type).length >= config.maxPerGame) {
+    return { ok: false, reason: "limit-reached" };
+  }
+  // A hint may never end the game
+  if (lifeCost > 0 && state.mistakesRemaining <= lifeCost) {
+    return { ok: false, reason: "not-enough-lives" };
+  }
+
+  const solvedGroupNames = new Set(state.solvedGroups.map((g) => g.name));
+  const unsolvedGroups = groups
+    .filter((g) => !solvedGroupNames.has(g.name))
+    .sort((a, b) => DIFFICULTY_ORDER[a.difficulty] - DIFFICULTY_ORDER[b.difficulty]);
+
+  let hint: UsedHint | null = null;
+
+  if (type === "reveal-word") {
+    const revealed = new Set(
+      state.hints.flatMap((h) => (h.type === "reveal-word" ? [h.word] : []))
+    );
+    for (const group of unsolvedGroups) {
+      const word = group.words.find((w) => !revealed.has(w));
+      if (word) {
+        hint = { type, word, difficulty: group.difficulty };
+        break;
+      }
+    }
+  } else if (type === "reveal-category") {
+    const revealed = new Set(
+      state.hints.flatMap((h) => (h.type === "reveal-category" ? [h.groupName] : []))
+    );
+    const group = unsolvedGroups.find((g) => !revealed.has(g.name));
+    if (group) {
+      hint = { type, groupName: group.name, difficulty: group.difficulty };
+    }
   } else {
-    // Wrong guess - keep words selected so user can try again
-    const newMistakes = mistakesRemaining - 1;
-    const isComplete = newMistakes === 0;
+    if (
+      words.length !== 2 ||
+      words[0] === words[1] ||
+      !words.every((w) => state.remainingWords.includes(w))
+    ) {
+      return { ok: false, reason: "invalid-pair" };
+    }
+    const sameGroup = unsolvedGroups.some((g) => words.every((w) => g.words.includes(w)));
+    hint = { type, words: [...words], sameGroup };
+  }
 
-    return {
-      ...state,
-      // Keep selectedWords from state (don't clear them)
-      mistakesRemaining: newMistakes,
-      isComplete,
-      won: false,
-      attempts: newAttempts,
-    };
+  if (!hint) {
+    return { ok: false, reason: "nothing-left" };
   }
+
+  return {
+    ok: true,
+    hint,
+    state: {
+      ...state,
+      mistakesRemaining: state.mistakesRemaining - lifeCost,
+      hints: [...state.hints, hint],
+    },
+  };
 }
 
 // Toggle word selection
@@ -198,16 +541,163 @@ export function getDifficultyLabel(difficulty: Difficulty): string {
   }
 }
 
+// Time zone whose midnight starts a new daily board
+export const DEFAULT_PUZZLE_TIME_ZONE = "Europe/Berlin";
+
+// Get the puzzle day (YYYY-MM-DD) that is current at the given moment
+export function getPuzzleDate(
+  timeZone: string = DEFAULT_PUZZLE_TIME_ZONE,
+  now: Date = new Date()
+): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(now);
+}
+
+// Title of a puzzle, e.g. "Verbindungen #123"
+export function getPuzzleTitle(puzzleNumber: number | undefined): string {
+  return puzzleNumber ? `Verbindungen #${puzzleNumber}` : "Verbindungen";
+}
+
+// Get game mode name in German
+export function getModeLabel(mode: GameMode): string {
+  switch (mode) {
+    case "classic":
+      return "Klassisch";
+    case "zen":
+      return "Zen";
+    case "hard":
+      return "Hart";
+    case "timed":
+      return "Auf Zeit";
+  }
+}
+
+// Explain a game mode in German
+export function getModeDescription(mode: GameMode): string {
+  switch (mode) {
+    case "classic":
+      return "4 Fehler erlaubt";
+    case "zen":
+      return "Unbegrenzte Versuche, zählt nicht für die Statistik";
+    case "hard":
+      return "Nur ein Fehler, Gruppen von leicht nach schwer, sonst zählt es als Fehler";
+    case "timed":
+      return `${(GAME_MODES.timed.timeLimitMs ?? 0) / 60000} Minuten Zeit, die Uhr läuft auch im Hintergrund weiter`;
+  }
+}
+
+// Format a duration as m:ss
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+// Get hint name in German
+export function getHintLabel(type: HintType): string {
+  switch (type) {
+    case "reveal-word":
+      return "Wort aufdecken";
+    case "reveal-category":
+      return "Kategorie zeigen";
+    case "check-pair":
+      return "Paar prüfen";
+  }
+}
+
+// Describe what a used hint revealed, in German
+export function describeHint(hint: UsedHint): string {
+  switch (hint.type) {
+    case "reveal-word":
+      return `„${hint.word}“ gehört zur Gruppe „${getDifficultyLabel(hint.difficulty)}“`;
+    case "reveal-category":
+      return `Gesucht (${getDifficultyLabel(hint.difficulty)}): ${hint.groupName}`;
+    case "check-pair":
+      return hint.sameGroup
+        ? `„${hint.words[0]}“ und „${hint.words[1]}“ gehören zusammen`
+        : `„${hint.words[0]}“ und „${hint.words[1]}“ gehören nicht zusammen`;
+  }
+}
+
+// Explain in German why a hint was refused
+export function getHintRefusalMessage(reason: HintRefusal): string {
+  switch (reason) {
+    case "game-over":
+      return "Das Spiel ist bereits beendet.";
+    case "limit-reached":
+      return "Dieser Hinweis ist aufgebraucht.";
+    case "not-enough-lives":
+      return "Dafür hast du nicht genug Leben.";
+    case "invalid-pair":
+      return "Wähle genau zwei Wörter aus.";
+    case "nothing-left":
+      return "Es gibt nichts mehr aufzudecken.";
+  }
+}
+
+// Colored square for a group difficulty, as used in shared results
+export function getDifficultyEmoji(difficulty: Difficulty): string {
+  switch (difficulty) {
+    case "easy":
+      return "🟨";
+    case "medium":
+      return "🟩";
+    case "hard":
+      return "🟦";
+    case "very-hard":
+      return "🟪";
+  }
+}
+
+// Build the shareable result: the puzzle title and date, then one row of
+// colored squares per guess showing which group each chosen word belonged to
+export function buildShareText(
+  attempts: { words: string[] }[],
+  groups: Group[],
+  board: { date?: string; puzzleNumber?: number },
+  hintCount: number = 0
+): string {
+  const difficultyByWord = new Map(
+    groups.flatMap((group) => group.words.map((word) => [word, group.difficulty] as const))
+  );
+
+  const header = board.date
+    ? `${getPuzzleTitle(board.puzzleNumber)} (${board.date.split("-").reverse().join(".")})`
+    : getPuzzleTitle(board.puzzleNumber);
+  const rows = attempts.map((attempt) =>
+    attempt.words
+      .map((word) => {
+        const difficulty = difficultyByWord.get(word);
+        return difficulty ? getDifficultyEmoji(difficulty) : "⬜";
+      })
+      .join("")
+  );
+
+  const hintLine = hintCount > 0 ? [`💡 ${hintCount} ${hintCount === 1 ? "Hinweis" : "Hinweise"}`] : [];
+
+  return [header, ...hintLine, ...rows].join("\n");
+}
+
 // Format date for display
 export function formatDate(dateString: string | undefined): string {
   if (!dateString) return "Zufall";
-  
-  const date = new Date(dateString);
+
+  // new Date("YYYY-MM-DD") parses as UTC midnight, which is the previous day
+  // west of UTC, so format the calendar date in UTC as well
+  const [year, month, day] = dateString.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
   return date.toLocaleDateString("de-DE", {
     weekday: "long",
     year: "numeric",
     month: "long",
     day: "numeric",
+    timeZone: "UTC",
   });
 }
 
@@ -0,0 +1,13 @@
+import { Platform, Share } from "react-native";
+
+// Share a text: copied to the clipboard on web, the native share sheet
+// elsewhere. Returns how it was shared, so the caller can give feedback.
+export async function shareText(text: string): Promise<"copied" | "shared"> {
+  if (Platform.OS === "web") {
+    await navigator.clipboard.writeText(text);
+    return "copied";
+  }
+
+  await Share.share({ message: text });
+  return "shared";
+}